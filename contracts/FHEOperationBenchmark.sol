@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { Impl } from "@fhevm/solidity/lib/Impl.sol";
+import { FheType } from "@fhevm/solidity/lib/FheType.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @notice Dispatcher used by the benchmark harness to run single IFHEVMExecutor
+///         operations and report the gas spent inside the executor call.
+contract FHEOperationBenchmark is SepoliaConfig {
+    event OperandCreated(bytes32 indexed handle, FheType fheType);
+    event OperationExecuted(bytes4 indexed selector, bytes32 result, uint256 gasUsed);
+
+    error OperationFailed(bytes4 selector);
+
+    function createOperand(uint256 value, FheType fheType) external returns (bytes32 handle) {
+        handle = Impl.trivialEncrypt(value, fheType);
+        _allowPersistent(handle);
+        emit OperandCreated(handle, fheType);
+    }
+
+    function execute(bytes calldata executorCall) external returns (bytes32 result) {
+        bytes4 selector = bytes4(executorCall[:4]);
+        address executor = Impl.getCoprocessorConfig().CoprocessorAddress;
+
+        uint256 gasBefore = gasleft();
+        (bool success, bytes memory returnData) = executor.call(executorCall);
+        uint256 gasUsed = gasBefore - gasleft();
+        if (!success) revert OperationFailed(selector);
+
+        result = abi.decode(returnData, (bytes32));
+        _allowPersistent(result);
+        emit OperationExecuted(selector, result, gasUsed);
+    }
+
+    // The executor only grants transient access; persist it so results can be
+    // reused as operands and decrypted by the caller.
+    function _allowPersistent(bytes32 handle) internal {
+        Impl.allow(handle, address(this));
+        Impl.allow(handle, msg.sender);
+    }
+}
@@ -1,49 +1,176 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract FHEBenchmarkToolFHE is SepoliaConfig {
     using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
 
+    /// @dev The owner only manages admins; day-to-day duties are split across roles.
     address public owner;
+    address public pendingOwner;
+
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE"); // Providers, cooldowns, defaults, operational roles
+    bytes32 public constant BATCH_OPERATOR_ROLE = keccak256("BATCH_OPERATOR_ROLE"); // Open, close and configure batches
+    bytes32 public constant DECRYPTION_REQUESTER_ROLE = keccak256("DECRYPTION_REQUESTER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    mapping(bytes32 => mapping(address => bool)) private roles;
     mapping(address => bool) public providers;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
-    uint256 public cooldownSeconds = 60; // Default cooldown: 60 seconds
+    uint256 public submissionCooldown = 60; // Seconds between a provider's submissions
+    uint256 public decryptionCooldown = 60; // Seconds between a requester's decryption requests
+    mapping(address => uint256) public providerSubmissionCooldowns; // Overrides `submissionCooldown`; 0 means none
+    mapping(address => bool) public cooldownExempt; // Automated runners that may submit back to back
 
     bool public paused;
 
+    /// @dev Units are a client convention; the dashboard submits microseconds, KiB, gas and bytes.
+    enum Metric {
+        ExecutionTime,
+        MemoryUsage,
+        GasUsed,
+        CiphertextSize
+    }
+    uint8 internal constant METRIC_COUNT = 4;
+    /// @dev Each sample costs a fixed amount of HCU; 13 samples is the most that fit the per-transaction HCU limit.
+    uint256 public constant MAX_SAMPLES_PER_SUBMISSION = 13;
+
+    /// @dev Tags are bytes32 identifiers, e.g. ethers.encodeBytes32String("TFHE"); several batches can be open at once.
     struct Batch {
         uint256 id;
         bool active;
-        uint256 dataCount;
-        euint32 encryptedTotalTime; // Sum of encrypted execution times
+        uint256 dataCount; // Submissions of any kind
+        bytes32 scheme;
+        bytes32 operation;
+        bytes32 fheType;
+        bytes32 paramSet;
     }
-    uint256 public currentBatchId;
+    uint256 public currentBatchId; // Highest batch id issued; batches 1..currentBatchId exist
     mapping(uint256 => Batch) public batches;
 
+    /// @dev Decrypting an aggregate of too few providers reveals their individual values. The decrypted min and max
+    /// are single samples at any threshold.
+    struct BatchPolicy {
+        uint256 minProviderCount; // Distinct providers a metric needs before it can be decrypted
+        uint256 maxDataCount; // Auto-close once reached; 0 disables
+        uint256 deadline; // Submissions stop at this timestamp; 0 disables
+    }
+    mapping(uint256 => BatchPolicy) public batchPolicies;
+    uint256 public defaultMinProviderCount = 3; // Applied to newly opened batches
+
+    enum CloseReason {
+        SubmissionLimit,
+        Deadline
+    }
+
+    struct MetricAggregate {
+        uint256 dataCount; // Submissions that carried this metric
+        euint32 encryptedTotal;
+        euint32 encryptedMin; // Starts at type(uint32).max
+        euint32 encryptedMax; // Starts at 0
+        euint64 encryptedSumOfSquares; // For variance
+        uint256 providerCount; // Distinct providers among the submissions
+    }
+    mapping(uint256 => mapping(Metric => MetricAggregate)) private batchMetrics;
+
+    /// @dev Only the contract and the provider itself may decrypt these, via user decryption.
+    struct Contribution {
+        euint32 encryptedTotal;
+        euint32 encryptedCount;
+        bool counted; // Whether the provider is already in the aggregate's `providerCount`
+    }
+    mapping(uint256 => mapping(address => mapping(Metric => Contribution))) private contributions;
+
+    struct BatchResult {
+        uint256 batchId;
+        Metric metric;
+        bool decrypted;
+        uint256 dataCount;
+        uint256 total;
+        uint256 min;
+        uint256 max;
+        uint256 sumOfSquares;
+        uint256 average; // total / dataCount, rounded down; 0 without data
+        uint256 decryptedAt;
+    }
+    mapping(uint256 => mapping(Metric => BatchResult)) private batchResults;
+
+    /// @dev Expired: the request outlived `decryptionTimeout`. It is stored once re-requested; views report it earlier.
+    enum RequestStatus {
+        None,
+        Pending,
+        Fulfilled,
+        Cancelled,
+        Expired
+    }
+
     struct DecryptionContext {
+        uint256 requestId;
         uint256 batchId;
+        Metric metric;
         bytes32 stateHash;
-        bool processed;
+        RequestStatus status;
+        address requester;
+        uint256 requestedAt;
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
+    mapping(uint256 => uint256[]) private batchRequestIds; // Every request ever made for a batch, oldest first
+    mapping(uint256 => mapping(Metric => uint256)) public latestRequestIds; // Oracle request ids start at 0; check the status
+    uint256 public decryptionTimeout = 1 days; // After this a pending request may be re-requested
 
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
-    event CooldownSecondsChanged(uint256 oldCooldown, uint256 newCooldown);
+    event SubmissionCooldownChanged(uint256 oldCooldown, uint256 newCooldown);
+    event DecryptionCooldownChanged(uint256 oldCooldown, uint256 newCooldown);
+    event ProviderSubmissionCooldownSet(address indexed provider, uint256 cooldown);
+    event CooldownExemptionSet(address indexed account, bool exempt);
     event Paused(address account);
     event Unpaused(address account);
-    event BatchOpened(uint256 indexed batchId);
+    event BatchOpened(
+        uint256 indexed batchId,
+        bytes32 indexed scheme,
+        bytes32 indexed operation,
+        bytes32 fheType,
+        bytes32 paramSet
+    );
     event BatchClosed(uint256 indexed batchId, uint256 dataCount);
+    event BatchAutoClosed(uint256 indexed batchId, CloseReason reason, uint256 dataCount);
+    event BatchPolicySet(uint256 indexed batchId, uint256 minProviderCount, uint256 maxDataCount, uint256 deadline);
+    event DefaultMinProviderCountChanged(uint256 oldMinProviderCount, uint256 newMinProviderCount);
     event DataSubmitted(address indexed provider, uint256 indexed batchId, uint256 dataCount);
-    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalTime);
+    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, Metric indexed metric);
+    event DecryptionCancelled(uint256 indexed requestId, uint256 indexed batchId, Metric indexed metric);
+    event DecryptionExpired(uint256 indexed requestId, uint256 indexed newRequestId, uint256 indexed batchId);
+    event DecryptionTimeoutChanged(uint256 oldTimeout, uint256 newTimeout);
+    event DecryptionCompleted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        Metric indexed metric,
+        uint256 dataCount,
+        uint256 total,
+        uint256 min,
+        uint256 max,
+        uint256 sumOfSquares
+    );
 
     error NotOwner();
+    error NotPendingOwner();
+    error MissingRole(bytes32 role, address account);
+    error InvalidRole();
+    error InvalidAddress();
+    error InvalidTimeout();
+    error InvalidSampleCount();
+    error DecryptionPending();
+    error RequestNotPending();
+    error RequestNotExpired();
+    error NotRequester();
     error NotProvider();
     error PausedError();
     error CooldownActive();
@@ -52,12 +179,21 @@ contract FHEBenchmarkToolFHE is SepoliaConfig {
     error ReplayAttempt();
     error StateMismatch();
     error InvalidCooldown();
+    error InvalidRange();
+    error InvalidPolicy();
+    error InsufficientData();
+    error BatchDeadlinePassed();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
         _;
     }
 
+    modifier onlyRole(bytes32 role) {
+        if (!roles[role][msg.sender]) revert MissingRole(role, msg.sender);
+        _;
+    }
+
     modifier onlyProvider() {
         if (!providers[msg.sender]) revert NotProvider();
         _;
@@ -71,52 +207,186 @@ contract FHEBenchmarkToolFHE is SepoliaConfig {
     constructor() {
         owner = msg.sender;
         emit OwnershipTransferred(address(0), msg.sender);
+        _grantRole(ADMIN_ROLE, msg.sender);
+        _grantRole(BATCH_OPERATOR_ROLE, msg.sender);
+        _grantRole(DECRYPTION_REQUESTER_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
     }
 
+    /// @notice Starts a two-step transfer; `newOwner` takes over once it calls `acceptOwnership`.
     function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert InvalidAddress();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    /// @notice Completes the transfer. The new owner receives ADMIN_ROLE and every operational role the previous
+    /// owner held, and the previous owner keeps none of them.
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
         address previousOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(previousOwner, newOwner);
+        owner = msg.sender;
+        pendingOwner = address(0);
+        emit OwnershipTransferred(previousOwner, msg.sender);
+
+        _grantRole(ADMIN_ROLE, msg.sender);
+        _revokeRole(ADMIN_ROLE, previousOwner);
+        bytes32[3] memory operationalRoles = [BATCH_OPERATOR_ROLE, DECRYPTION_REQUESTER_ROLE, PAUSER_ROLE];
+        for (uint256 i = 0; i < operationalRoles.length; i++) {
+            if (!roles[operationalRoles[i]][previousOwner]) continue;
+            _revokeRole(operationalRoles[i], previousOwner);
+            _grantRole(operationalRoles[i], msg.sender);
+        }
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roles[role][account];
+    }
+
+    /// @notice The owner grants and revokes ADMIN_ROLE; admins grant and revoke the other roles.
+    function grantRole(bytes32 role, address account) external {
+        _checkRoleManager(role);
+        if (account == address(0)) revert InvalidAddress();
+        _grantRole(role, account);
+    }
+
+    function revokeRole(bytes32 role, address account) external {
+        _checkRoleManager(role);
+        _revokeRole(role, account);
+    }
+
+    function renounceRole(bytes32 role) external {
+        _revokeRole(role, msg.sender);
     }
 
-    function addProvider(address provider) external onlyOwner {
+    function addProvider(address provider) external onlyRole(ADMIN_ROLE) {
         providers[provider] = true;
         emit ProviderAdded(provider);
     }
 
-    function removeProvider(address provider) external onlyOwner {
+    function removeProvider(address provider) external onlyRole(ADMIN_ROLE) {
         providers[provider] = false;
         emit ProviderRemoved(provider);
     }
 
-    function setCooldownSeconds(uint256 newCooldown) external onlyOwner {
+    function setSubmissionCooldown(uint256 newCooldown) external onlyRole(ADMIN_ROLE) {
+        if (newCooldown == 0) revert InvalidCooldown();
+        uint256 oldCooldown = submissionCooldown;
+        submissionCooldown = newCooldown;
+        emit SubmissionCooldownChanged(oldCooldown, newCooldown);
+    }
+
+    function setDecryptionCooldown(uint256 newCooldown) external onlyRole(ADMIN_ROLE) {
         if (newCooldown == 0) revert InvalidCooldown();
-        uint256 oldCooldown = cooldownSeconds;
-        cooldownSeconds = newCooldown;
-        emit CooldownSecondsChanged(oldCooldown, newCooldown);
+        uint256 oldCooldown = decryptionCooldown;
+        decryptionCooldown = newCooldown;
+        emit DecryptionCooldownChanged(oldCooldown, newCooldown);
     }
 
-    function pause() external onlyOwner whenNotPaused {
+    /// @notice Gives `provider` its own submission cooldown; 0 falls back to `submissionCooldown`.
+    /// @dev Use `setCooldownExempt` to drop the cooldown altogether.
+    function setProviderSubmissionCooldown(address provider, uint256 cooldown) external onlyRole(ADMIN_ROLE) {
+        if (provider == address(0)) revert InvalidAddress();
+        providerSubmissionCooldowns[provider] = cooldown;
+        emit ProviderSubmissionCooldownSet(provider, cooldown);
+    }
+
+    /// @notice Exempts `account` from the submission cooldown, e.g. an automated runner pushing many samples.
+    function setCooldownExempt(address account, bool exempt) external onlyRole(ADMIN_ROLE) {
+        if (account == address(0)) revert InvalidAddress();
+        cooldownExempt[account] = exempt;
+        emit CooldownExemptionSet(account, exempt);
+    }
+
+    /// @notice Cooldown currently applied between `provider`'s submissions.
+    function submissionCooldownOf(address provider) public view returns (uint256) {
+        if (cooldownExempt[provider]) return 0;
+        uint256 cooldown = providerSubmissionCooldowns[provider];
+        return cooldown != 0 ? cooldown : submissionCooldown;
+    }
+
+    function setDefaultMinProviderCount(uint256 newMinProviderCount) external onlyRole(ADMIN_ROLE) {
+        if (newMinProviderCount == 0) revert InvalidPolicy();
+        uint256 oldMinProviderCount = defaultMinProviderCount;
+        defaultMinProviderCount = newMinProviderCount;
+        emit DefaultMinProviderCountChanged(oldMinProviderCount, newMinProviderCount);
+    }
+
+    function setDecryptionTimeout(uint256 newTimeout) external onlyRole(ADMIN_ROLE) {
+        if (newTimeout == 0) revert InvalidTimeout();
+        uint256 oldTimeout = decryptionTimeout;
+        decryptionTimeout = newTimeout;
+        emit DecryptionTimeoutChanged(oldTimeout, newTimeout);
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) whenNotPaused {
         paused = true;
         emit Paused(msg.sender);
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         paused = false;
         emit Unpaused(msg.sender);
     }
 
-    function openBatch() external onlyOwner whenNotPaused {
-        currentBatchId++;
-        Batch storage batch = batches[currentBatchId];
-        batch.id = currentBatchId;
+    function openBatch(
+        bytes32 scheme,
+        bytes32 operation,
+        bytes32 fheType,
+        bytes32 paramSet
+    ) external onlyRole(BATCH_OPERATOR_ROLE) whenNotPaused returns (uint256 batchId) {
+        batchId = ++currentBatchId;
+        Batch storage batch = batches[batchId];
+        batch.id = batchId;
         batch.active = true;
         batch.dataCount = 0;
-        batch.encryptedTotalTime = FHE.asEuint32(0);
-        emit BatchOpened(currentBatchId);
+        batch.scheme = scheme;
+        batch.operation = operation;
+        batch.fheType = fheType;
+        batch.paramSet = paramSet;
+        batchPolicies[batchId] = BatchPolicy({
+            minProviderCount: defaultMinProviderCount,
+            maxDataCount: 0,
+            deadline: 0
+        });
+        for (uint8 i = 0; i < METRIC_COUNT; i++) {
+            MetricAggregate storage aggregate = batchMetrics[batchId][Metric(i)];
+            aggregate.encryptedTotal = FHE.asEuint32(0);
+            aggregate.encryptedMin = FHE.asEuint32(type(uint32).max);
+            aggregate.encryptedMax = FHE.asEuint32(0);
+            aggregate.encryptedSumOfSquares = FHE.asEuint64(0);
+            _allowAggregate(aggregate);
+        }
+        emit BatchOpened(batchId, scheme, operation, fheType, paramSet);
+        emit BatchPolicySet(batchId, defaultMinProviderCount, 0, 0);
     }
 
-    function closeBatch(uint256 batchId) external onlyOwner whenNotPaused {
+    /// @notice Replaces the policy of an open batch; `maxDataCount` and `deadline` are disabled with 0.
+    function setBatchPolicy(
+        uint256 batchId,
+        uint256 minProviderCount,
+        uint256 maxDataCount,
+        uint256 deadline
+    ) external onlyRole(BATCH_OPERATOR_ROLE) whenNotPaused {
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatch();
+        Batch storage batch = batches[batchId];
+        if (!_isOpen(batchId)) revert BatchNotActive();
+        if (minProviderCount == 0) revert InvalidPolicy();
+        // A limit below the minimum would close the batch before it could ever be decrypted
+        if (maxDataCount != 0 && (maxDataCount < minProviderCount || maxDataCount <= batch.dataCount)) {
+            revert InvalidPolicy();
+        }
+        if (deadline != 0 && deadline <= block.timestamp) revert InvalidPolicy();
+
+        batchPolicies[batchId] = BatchPolicy({
+            minProviderCount: minProviderCount,
+            maxDataCount: maxDataCount,
+            deadline: deadline
+        });
+        emit BatchPolicySet(batchId, minProviderCount, maxDataCount, deadline);
+    }
+
+    function closeBatch(uint256 batchId) external onlyRole(BATCH_OPERATOR_ROLE) whenNotPaused {
         if (batchId == 0 || batchId > currentBatchId || !batches[batchId].active) {
             revert InvalidBatch();
         }
@@ -125,62 +395,176 @@ contract FHEBenchmarkToolFHE is SepoliaConfig {
         emit BatchClosed(batchId, batch.dataCount);
     }
 
-    function submitBenchmarkData(uint256 executionTime) external onlyProvider whenNotPaused {
-        if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
-            revert CooldownActive();
-        }
-        lastSubmissionTime[msg.sender] = block.timestamp;
+    /// @notice Plaintext submission; the value is visible in calldata. Prefer `submitEncryptedBenchmarkData`.
+    function submitBenchmarkData(uint256 batchId, uint32 executionTime) external onlyProvider whenNotPaused {
+        _beginSubmission(batchId);
+        _aggregate(batchId, Metric.ExecutionTime, FHE.asEuint32(executionTime));
+        _endSubmission(batchId);
+    }
 
-        if (currentBatchId == 0 || !batches[currentBatchId].active) {
-            revert BatchNotActive();
+    /// @notice Submits an execution time encrypted client-side (e.g. with the relayer SDK) for this contract and sender.
+    function submitEncryptedBenchmarkData(
+        uint256 batchId,
+        externalEuint32 encryptedExecutionTime,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused {
+        _beginSubmission(batchId);
+        _aggregate(batchId, Metric.ExecutionTime, FHE.fromExternal(encryptedExecutionTime, inputProof));
+        _endSubmission(batchId);
+    }
+
+    /// @notice Submits several execution time samples, encrypted together so a single input proof covers them.
+    /// @dev Counts as one submission for the cooldown and `maxDataCount`; every sample adds to the aggregate.
+    function submitBenchmarkDataBatch(
+        uint256 batchId,
+        externalEuint32[] calldata encryptedExecutionTimes,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused {
+        uint256 count = encryptedExecutionTimes.length;
+        if (count == 0 || count > MAX_SAMPLES_PER_SUBMISSION) revert InvalidSampleCount();
+        _beginSubmission(batchId);
+        for (uint256 i = 0; i < count; i++) {
+            _aggregate(batchId, Metric.ExecutionTime, FHE.fromExternal(encryptedExecutionTimes[i], inputProof));
         }
+        _endSubmission(batchId);
+    }
 
-        Batch storage batch = batches[currentBatchId];
-        euint32 encryptedTime = FHE.asEuint32(executionTime);
-        batch.encryptedTotalTime = FHE.add(batch.encryptedTotalTime, encryptedTime);
-        batch.dataCount++;
+    /// @notice Submits all metrics of one run, encrypted together so a single input proof covers them.
+    function submitEncryptedBenchmarkMetrics(
+        uint256 batchId,
+        externalEuint32 encryptedExecutionTime,
+        externalEuint32 encryptedMemoryUsage,
+        externalEuint32 encryptedGasUsed,
+        externalEuint32 encryptedCiphertextSize,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused {
+        _beginSubmission(batchId);
+        _aggregate(batchId, Metric.ExecutionTime, FHE.fromExternal(encryptedExecutionTime, inputProof));
+        _aggregate(batchId, Metric.MemoryUsage, FHE.fromExternal(encryptedMemoryUsage, inputProof));
+        _aggregate(batchId, Metric.GasUsed, FHE.fromExternal(encryptedGasUsed, inputProof));
+        _aggregate(batchId, Metric.CiphertextSize, FHE.fromExternal(encryptedCiphertextSize, inputProof));
+        _endSubmission(batchId);
+    }
+
+    /// @notice Decrypts the execution time aggregates of a closed batch.
+    function requestBenchmarkResultDecryption(
+        uint256 batchId
+    ) external onlyRole(DECRYPTION_REQUESTER_ROLE) whenNotPaused {
+        _requestDecryption(batchId, Metric.ExecutionTime);
+    }
 
-        emit DataSubmitted(msg.sender, currentBatchId, batch.dataCount);
+    /// @notice Decrypts one metric's aggregates of a closed batch; each metric is a separate request.
+    function requestMetricDecryption(
+        uint256 batchId,
+        Metric metric
+    ) external onlyRole(DECRYPTION_REQUESTER_ROLE) whenNotPaused {
+        _requestDecryption(batchId, metric);
     }
 
-    function requestBenchmarkResultDecryption(uint256 batchId) external onlyOwner whenNotPaused {
-        if (batchId == 0 || batchId > currentBatchId || batches[batchId].active) {
+    /// @notice Withdraws a pending request; a late oracle callback for it is rejected.
+    /// @dev Only the original requester or an admin may cancel. The requester's cooldown keeps running.
+    function cancelDecryptionRequest(uint256 requestId) external {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.status != RequestStatus.Pending) revert RequestNotPending();
+        if (msg.sender != ctx.requester && !roles[ADMIN_ROLE][msg.sender]) revert NotRequester();
+        ctx.status = RequestStatus.Cancelled;
+        emit DecryptionCancelled(requestId, ctx.batchId, ctx.metric);
+    }
+
+    /// @notice Replaces a request the oracle has not answered within `decryptionTimeout`; bypasses the cooldown.
+    function retryDecryptionRequest(
+        uint256 requestId
+    ) external onlyRole(DECRYPTION_REQUESTER_ROLE) whenNotPaused returns (uint256 newRequestId) {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.status != RequestStatus.Pending) revert RequestNotPending();
+        if (block.timestamp < ctx.requestedAt + decryptionTimeout) revert RequestNotExpired();
+        ctx.status = RequestStatus.Expired;
+
+        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+        newRequestId = _issueDecryption(ctx.batchId, ctx.metric);
+        emit DecryptionExpired(requestId, newRequestId, ctx.batchId);
+    }
+
+    /// @notice Status of a request, reporting pending requests past `decryptionTimeout` as Expired.
+    function getDecryptionStatus(uint256 requestId) public view returns (RequestStatus) {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.status == RequestStatus.Pending && block.timestamp >= ctx.requestedAt + decryptionTimeout) {
+            return RequestStatus.Expired;
+        }
+        return ctx.status;
+    }
+
+    /// @notice Requests of `batchId` still awaiting the oracle, with `status` as reported by `getDecryptionStatus`.
+    function getOutstandingRequests(uint256 batchId) external view returns (DecryptionContext[] memory requests) {
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatch();
+        uint256[] storage ids = batchRequestIds[batchId];
+        uint256 count;
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (decryptionContexts[ids[i]].status == RequestStatus.Pending) count++;
+        }
+        requests = new DecryptionContext[](count);
+        uint256 next;
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (decryptionContexts[ids[i]].status != RequestStatus.Pending) continue;
+            requests[next] = decryptionContexts[ids[i]];
+            requests[next++].status = getDecryptionStatus(ids[i]);
+        }
+    }
+
+    function _requestDecryption(uint256 batchId, Metric metric) internal {
+        if (batchId == 0 || batchId > currentBatchId || _isOpen(batchId)) {
             revert InvalidBatch();
         }
-        if (block.timestamp < lastDecryptionRequestTime[msg.sender] + cooldownSeconds) {
+        MetricAggregate storage aggregate = batchMetrics[batchId][metric];
+        if (aggregate.providerCount < batchPolicies[batchId].minProviderCount) revert InsufficientData();
+        DecryptionContext storage latest = decryptionContexts[latestRequestIds[batchId][metric]];
+        if (latest.status == RequestStatus.Pending && latest.batchId == batchId && latest.metric == metric) {
+            revert DecryptionPending();
+        }
+        if (block.timestamp < lastDecryptionRequestTime[msg.sender] + decryptionCooldown) {
             revert CooldownActive();
         }
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
 
-        Batch storage batch = batches[batchId];
-        euint32 encryptedResult = batch.encryptedTotalTime;
+        // Nobody submitted after the deadline, so the batch is still flagged active
+        if (batches[batchId].active) _autoClose(batchId, CloseReason.Deadline);
 
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(encryptedResult);
+        _issueDecryption(batchId, metric);
+    }
 
+    function _issueDecryption(uint256 batchId, Metric metric) internal returns (uint256 requestId) {
+        bytes32[] memory cts = _metricCiphertexts(batchMetrics[batchId][metric]);
         bytes32 stateHash = _hashCiphertexts(cts);
-        uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
+        requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
         decryptionContexts[requestId] = DecryptionContext({
+            requestId: requestId,
             batchId: batchId,
+            metric: metric,
             stateHash: stateHash,
-            processed: false
+            status: RequestStatus.Pending,
+            requester: msg.sender,
+            requestedAt: block.timestamp
         });
+        batchRequestIds[batchId].push(requestId);
+        latestRequestIds[batchId][metric] = requestId;
 
-        emit DecryptionRequested(requestId, batchId);
+        emit DecryptionRequested(requestId, batchId, metric);
     }
 
+    /// @dev Late answers to pending requests past the timeout are still accepted until they are re-requested.
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
-        if (decryptionContexts[requestId].processed) {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.status == RequestStatus.Fulfilled) {
             revert ReplayAttempt();
         }
+        if (ctx.status != RequestStatus.Pending) {
+            revert RequestNotPending();
+        }
 
         // Rebuild ciphertexts array in the exact same order as during request
-        DecryptionContext storage ctx = decryptionContexts[requestId];
-        Batch storage batch = batches[ctx.batchId];
-        euint32 encryptedResult = batch.encryptedTotalTime;
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(encryptedResult);
+        MetricAggregate storage aggregate = batchMetrics[ctx.batchId][ctx.metric];
+        bytes32[] memory cts = _metricCiphertexts(aggregate);
 
         // Verify state consistency
         bytes32 currentHash = _hashCiphertexts(cts);
@@ -192,13 +576,171 @@ contract FHEBenchmarkToolFHE is SepoliaConfig {
         FHE.checkSignatures(requestId, cleartexts, proof);
 
         // Decode cleartexts
-        uint256 totalTime = abi.decode(cleartexts, (uint256));
+        (uint256 total, uint256 min, uint256 max, uint256 sumOfSquares) = abi.decode(
+            cleartexts,
+            (uint256, uint256, uint256, uint256)
+        );
+
+        ctx.status = RequestStatus.Fulfilled;
+        uint256 dataCount = aggregate.dataCount;
+        batchResults[ctx.batchId][ctx.metric] = BatchResult({
+            batchId: ctx.batchId,
+            metric: ctx.metric,
+            decrypted: true,
+            dataCount: dataCount,
+            total: total,
+            min: min,
+            max: max,
+            sumOfSquares: sumOfSquares,
+            average: dataCount == 0 ? 0 : total / dataCount,
+            decryptedAt: block.timestamp
+        });
+        emit DecryptionCompleted(requestId, ctx.batchId, ctx.metric, dataCount, total, min, max, sumOfSquares);
+    }
+
+    /// @notice Encrypted handles of `provider`'s running total and submission count for `metric` in `batchId`.
+    /// @dev Uninitialized (zero) handles mean the provider has not contributed that metric.
+    function getContribution(
+        uint256 batchId,
+        address provider,
+        Metric metric
+    ) external view returns (euint32 encryptedTotal, euint32 encryptedCount) {
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatch();
+        Contribution storage contribution = contributions[batchId][provider][metric];
+        return (contribution.encryptedTotal, contribution.encryptedCount);
+    }
+
+    /// @notice Ids of all batches currently accepting submissions.
+    function getOpenBatchIds() external view returns (uint256[] memory ids) {
+        uint256 count;
+        for (uint256 id = 1; id <= currentBatchId; id++) {
+            if (_isOpen(id)) count++;
+        }
+        ids = new uint256[](count);
+        uint256 next;
+        for (uint256 id = 1; id <= currentBatchId; id++) {
+            if (_isOpen(id)) ids[next++] = id;
+        }
+    }
+
+    /// @notice Decrypted `metric` aggregates of `batchId`; `decrypted` is false until the oracle callback ran.
+    function getBatchResult(uint256 batchId, Metric metric) external view returns (BatchResult memory) {
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatch();
+        return batchResults[batchId][metric];
+    }
+
+    /// @notice `metric` results of batches `fromBatchId` to `toBatchId`, inclusive.
+    function getBatchResults(
+        uint256 fromBatchId,
+        uint256 toBatchId,
+        Metric metric
+    ) external view returns (BatchResult[] memory results) {
+        if (fromBatchId == 0 || fromBatchId > toBatchId || toBatchId > currentBatchId) revert InvalidRange();
+        results = new BatchResult[](toBatchId - fromBatchId + 1);
+        for (uint256 i = 0; i < results.length; i++) {
+            results[i] = batchResults[fromBatchId + i][metric];
+        }
+    }
+
+    function _checkRoleManager(bytes32 role) internal view {
+        if (role == ADMIN_ROLE) {
+            if (msg.sender != owner) revert NotOwner();
+        } else if (role == BATCH_OPERATOR_ROLE || role == DECRYPTION_REQUESTER_ROLE || role == PAUSER_ROLE) {
+            if (!roles[ADMIN_ROLE][msg.sender]) revert MissingRole(ADMIN_ROLE, msg.sender);
+        } else {
+            revert InvalidRole();
+        }
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        if (roles[role][account]) return;
+        roles[role][account] = true;
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    function _revokeRole(bytes32 role, address account) internal {
+        if (!roles[role][account]) return;
+        roles[role][account] = false;
+        emit RoleRevoked(role, account, msg.sender);
+    }
+
+    function _beginSubmission(uint256 batchId) internal {
+        if (block.timestamp < lastSubmissionTime[msg.sender] + submissionCooldownOf(msg.sender)) {
+            revert CooldownActive();
+        }
+        lastSubmissionTime[msg.sender] = block.timestamp;
+
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatch();
+        if (!batches[batchId].active) revert BatchNotActive();
+        uint256 deadline = batchPolicies[batchId].deadline;
+        if (deadline != 0 && block.timestamp >= deadline) revert BatchDeadlinePassed();
+    }
+
+    function _endSubmission(uint256 batchId) internal {
+        Batch storage batch = batches[batchId];
+        batch.dataCount++;
+        emit DataSubmitted(msg.sender, batchId, batch.dataCount);
+
+        uint256 maxDataCount = batchPolicies[batchId].maxDataCount;
+        if (maxDataCount != 0 && batch.dataCount >= maxDataCount) {
+            _autoClose(batchId, CloseReason.SubmissionLimit);
+        }
+    }
+
+    /// @dev A batch past its deadline stops accepting data even before a transaction flips `active`.
+    function _isOpen(uint256 batchId) internal view returns (bool) {
+        uint256 deadline = batchPolicies[batchId].deadline;
+        return batches[batchId].active && (deadline == 0 || block.timestamp < deadline);
+    }
+
+    function _autoClose(uint256 batchId, CloseReason reason) internal {
+        Batch storage batch = batches[batchId];
+        batch.active = false;
+        emit BatchAutoClosed(batchId, reason, batch.dataCount);
+        emit BatchClosed(batchId, batch.dataCount);
+    }
+
+    function _aggregate(uint256 batchId, Metric metric, euint32 value) internal {
+        MetricAggregate storage aggregate = batchMetrics[batchId][metric];
+        euint64 wideValue = FHE.asEuint64(value);
+        aggregate.encryptedTotal = FHE.add(aggregate.encryptedTotal, value);
+        aggregate.encryptedMin = FHE.min(aggregate.encryptedMin, value);
+        aggregate.encryptedMax = FHE.max(aggregate.encryptedMax, value);
+        aggregate.encryptedSumOfSquares = FHE.add(aggregate.encryptedSumOfSquares, FHE.mul(wideValue, wideValue));
+        _allowAggregate(aggregate);
+        aggregate.dataCount++;
+
+        Contribution storage contribution = contributions[batchId][msg.sender][metric];
+        contribution.encryptedTotal = FHE.add(contribution.encryptedTotal, value);
+        contribution.encryptedCount = FHE.add(contribution.encryptedCount, 1);
+        FHE.allowThis(contribution.encryptedTotal);
+        FHE.allowThis(contribution.encryptedCount);
+        FHE.allow(contribution.encryptedTotal, msg.sender);
+        FHE.allow(contribution.encryptedCount, msg.sender);
+        if (!contribution.counted) {
+            contribution.counted = true;
+            aggregate.providerCount++;
+        }
+    }
+
+    // Decryption order: total, min, max, sum of squares
+    function _metricCiphertexts(MetricAggregate storage aggregate) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](4);
+        cts[0] = FHE.toBytes32(aggregate.encryptedTotal);
+        cts[1] = FHE.toBytes32(aggregate.encryptedMin);
+        cts[2] = FHE.toBytes32(aggregate.encryptedMax);
+        cts[3] = FHE.toBytes32(aggregate.encryptedSumOfSquares);
+    }
 
-        ctx.processed = true;
-        emit DecryptionCompleted(requestId, ctx.batchId, totalTime);
+    // Aggregates are reused by later transactions and by the decryption request
+    function _allowAggregate(MetricAggregate storage aggregate) internal {
+        FHE.allowThis(aggregate.encryptedTotal);
+        FHE.allowThis(aggregate.encryptedMin);
+        FHE.allowThis(aggregate.encryptedMax);
+        FHE.allowThis(aggregate.encryptedSumOfSquares);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 }
\ No newline at end of file
@@ -339,7 +339,8 @@ async function main() {
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalAdapter contract deployed at:", deployedAddress);
+    const deployReceipt = await factory.deploymentTransaction()?.wait();
+    console.log("UniversalAdapter contract deployed at:", deployedAddress, "in block", deployReceipt?.blockNumber);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -361,6 +362,8 @@ async function main() {
       const config = {
         network: rpc,
         contractAddress: deployedAddress,
+        // The dashboard indexes records from this block on
+        contractDeployBlock: deployReceipt?.blockNumber ?? 0,
         deployer: wallet.address,
       };
       fs.writeFileSync(
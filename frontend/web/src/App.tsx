@@ -3,74 +3,107 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { config, findOpenBatchId, getBenchmarkToolReadOnly, getBenchmarkToolWithSigner } from "./contract";
+import { getRecordRepositoryReadOnly, getRecordRepositoryWithSigner } from "./records";
+import type { RecordCursor, RecordLoadFailure } from "./records";
+import { encryptUint32Values, encryptValue, userDecryptHandles } from "./fhevm";
+import type { EncryptedInputs } from "./fhevm";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
+import { RequestStatus, createRecordId } from "../../../src/benchmark/types";
+import type { BenchmarkRecord, GasProfile } from "../../../src/benchmark/types";
+import { histogram, iqrOutliers, summarize } from "../../../src/benchmark/stats";
+import type { SampleSummary } from "../../../src/benchmark/stats";
+import type { FHEBenchmarkToolFHE } from "../../../types/contracts/FHE_Benchmark_Tool.sol/FHEBenchmarkToolFHE";
 
-interface BenchmarkRecord {
-  id: string;
+type BatchResult = FHEBenchmarkToolFHE.BatchResultStructOutput & { tags: string[] };
+type DecryptionRequest = FHEBenchmarkToolFHE.DecryptionContextStructOutput;
+// The connected account's own running total per metric, indexed like METRICS
+type Contribution = { total: number; count: number };
+
+// FHEBenchmarkToolFHE.Metric ordinals, with the units the dashboard submits and how to display them
+const METRICS = [
+  { label: "Execution Time", unit: "ms", scale: 1 / 1000 },
+  { label: "Memory Usage", unit: "MB", scale: 1 / 1024 },
+  { label: "Gas Used", unit: "gas", scale: 1 },
+  { label: "Ciphertext Size", unit: "bytes", scale: 1 }
+];
+
+// Input values are encrypted for the batch aggregate when one is configured, otherwise for the record store
+const OPERAND_CONTRACT = config.benchmarkToolAddress || config.contractAddress;
+
+interface PerformanceGroup {
   scheme: string;
-  encryptedData: string;
-  timestamp: number;
-  owner: string;
   operation: string;
-  executionTime: number;
-  memoryUsage: number;
+  time: SampleSummary;
+  samples: number[];
+  memory: SampleSummary;
+  outlierIds: string[];
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
+const recordSamples = (record: BenchmarkRecord) => record.samples ?? [record.executionTime];
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
+// Inserts or replaces a streamed record, keeping the table newest first
+const addRecord = (records: BenchmarkRecord[], record: BenchmarkRecord) =>
+  [...records.filter(r => r.id !== record.id), record].sort((a, b) => b.timestamp - a.timestamp);
+
+// Records that fail to decode, validate or migrate are skipped rather than hiding the rest
+const logRecordFailures = (failures: RecordLoadFailure[]) =>
+  failures.forEach(({ id, error }) => console.error(`Skipping record ${id} (${error.name}): ${error.message}`));
 
-const FHECompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'add':
-      result = value + 100;
-      break;
-    case 'multiply':
-      result = value * 2;
-      break;
-    case 'square':
-      result = value * value;
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
+// One group per scheme/operation pair. Timings pool every record's raw samples; records
+// whose mean falls outside the group's IQR fences are flagged as noisy runs
+const groupPerformance = (records: BenchmarkRecord[]): PerformanceGroup[] => {
+  const groups: Record<string, BenchmarkRecord[]> = {};
+  records.forEach(record => {
+    const key = `${record.scheme}/${record.operation}`;
+    (groups[key] ??= []).push(record);
+  });
+  return Object.values(groups).map(group => {
+    return {
+      scheme: group[0].scheme,
+      operation: group[0].operation,
+      time: summarize(group.flatMap(recordSamples)),
+      samples: group.flatMap(recordSamples),
+      memory: summarize(group.map(r => r.memoryUsage)),
+      outlierIds: iqrOutliers(group.map(r => r.executionTime)).map(index => group[index].id)
+    };
+  });
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+const Distribution: React.FC<{ samples: number[]; bins?: number }> = ({ samples, bins = 16 }) => {
+  const buckets = histogram(samples, bins);
+  const peak = Math.max(...buckets.map(bucket => bucket.count));
+  return (
+    <div className="distribution">
+      {buckets.map(bucket => (
+        <div key={bucket.start} className="distribution-bin" style={{ height: `${(bucket.count / peak) * 100}%` }}
+          title={`${bucket.start.toFixed(2)}–${bucket.end.toFixed(2)} ms: ${bucket.count}`} />
+      ))}
+    </div>
+  );
+};
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [records, setRecords] = useState<BenchmarkRecord[]>([]);
+  const [batchResults, setBatchResults] = useState<BatchResult[]>([]);
+  const [batchMetric, setBatchMetric] = useState(0);
+  const [pendingDecryptions, setPendingDecryptions] = useState<DecryptionRequest[]>([]);
+  const [gasProfile, setGasProfile] = useState<GasProfile | null>(null);
+  const [gasContract, setGasContract] = useState("");
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [recordsCursor, setRecordsCursor] = useState<RecordCursor | null>(null);
+  const [recordsError, setRecordsError] = useState<string | null>(null);
+  const [recordsIncomplete, setRecordsIncomplete] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newRecordData, setNewRecordData] = useState({ scheme: "TFHE", operation: "add", value: 100 });
+  const [newRecordData, setNewRecordData] = useState({ scheme: "TFHE", operation: "fheAdd", fheType: "euint32", operandMode: "ciphertext", value: 100, results: [] as BenchmarkRecord[] });
   const [showTutorial, setShowTutorial] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<BenchmarkRecord | null>(null);
-  const [decryptedValue, setDecryptedValue] = useState<number | null>(null);
-  const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterScheme, setFilterScheme] = useState("all");
 
@@ -82,108 +115,132 @@ const App: React.FC = () => {
 
   useEffect(() => {
     loadRecords().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
+    loadBatchResults();
   }, []);
 
+  // Refreshing starts over from the newest page; older pages come back through "load more"
   const loadRecords = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
+      const repository = await getRecordRepositoryReadOnly();
+      if (!repository) return;
+      setRecordsIncomplete(!repository.complete);
       
       // Check availability
-      const isAvailable = await contract.isAvailable();
+      const isAvailable = await repository.isAvailable();
       if (!isAvailable) return;
       
-      const keysBytes = await contract.getData("benchmark_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing benchmark keys:", e); }
-      }
-      
-      const list: BenchmarkRecord[] = [];
-      for (const key of keys) {
-        try {
-          const recordBytes = await contract.getData(`benchmark_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({ 
-                id: key, 
-                scheme: recordData.scheme,
-                encryptedData: recordData.data, 
-                timestamp: recordData.timestamp, 
-                owner: recordData.owner, 
-                operation: recordData.operation,
-                executionTime: recordData.executionTime,
-                memoryUsage: recordData.memoryUsage
-              });
-            } catch (e) { console.error(`Error parsing record data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading record ${key}:`, e); }
-      }
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setRecords(list);
-    } catch (e) { console.error("Error loading records:", e); } 
+      let first = true;
+      const page = await repository.loadPage({ onRecord: record => {
+        setRecords(list => addRecord(first ? [] : list, record));
+        first = false;
+        setLoading(false);
+      } });
+      logRecordFailures(page.failures);
+      setRecords(page.records);
+      setRecordsCursor(page.next);
+      setRecordsError(null);
+    } catch (e: any) {
+      console.error("Error loading records:", e);
+      setRecordsError("Could not load benchmark records: " + (e.message || "Unknown error"));
+    } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
+  const loadMoreRecords = async () => {
+    if (recordsCursor === null) return;
+    setLoadingMore(true);
+    try {
+      const repository = await getRecordRepositoryReadOnly();
+      if (!repository) return;
+      const page = await repository.loadPage({ before: recordsCursor, onRecord: record => setRecords(list => addRecord(list, record)) });
+      logRecordFailures(page.failures);
+      setRecordsCursor(page.next);
+    } catch (e) { console.error("Error loading older records:", e); }
+    finally { setLoadingMore(false); }
+  };
+
+  const loadBatchResults = async (metric = batchMetric) => {
+    try {
+      const benchmarkTool = await getBenchmarkToolReadOnly();
+      if (!benchmarkTool) return;
+      const latest = await benchmarkTool.currentBatchId();
+      if (latest === 0n) return;
+      const allResults = await benchmarkTool.getBatchResults(1n, latest, metric);
+      // Undecrypted entries are empty structs, so their batch id is the position in the range
+      const undecrypted = allResults.flatMap((result, index) => result.decrypted ? [] : [BigInt(index) + 1n]);
+      const outstanding = await Promise.all(undecrypted.map(batchId => benchmarkTool.getOutstandingRequests(batchId)));
+      setPendingDecryptions(outstanding.flat().filter(request => Number(request.metric) === metric));
+      const results = allResults.filter(result => result.decrypted);
+      const tagged = await Promise.all(results.map(async result => {
+        const batch = await benchmarkTool.batches(result.batchId);
+        const tags = [batch.scheme, batch.operation, batch.fheType, batch.paramSet].map(tag => ethers.decodeBytes32String(tag));
+        return Object.assign(result, { tags });
+      }));
+      setBatchResults(tagged.reverse());
+    } catch (e) { console.error("Error loading batch results:", e); }
+  };
+
   const submitBenchmark = async () => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
     setCreating(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Running FHE benchmark with Zama..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Publishing FHE benchmark results..." });
     try {
-      const encryptedData = FHEEncryptNumber(newRecordData.value);
+      // Metrics come from the Node harness (`npx hardhat benchmark:run`), measured against the FHEVM mock
+      const measured = newRecordData.results.find(r => r.scheme === newRecordData.scheme && r.operation === newRecordData.operation && r.fheType === newRecordData.fheType && (r.operandMode ?? "ciphertext") === newRecordData.operandMode);
+      if (!measured) throw new Error(`no ${newRecordData.scheme} ${newRecordData.operation} ${newRecordData.fheType} ${newRecordData.operandMode} result in the loaded harness output`);
       
-      // Simulate benchmark metrics
-      const executionTime = Math.random() * 100 + 50; // ms
-      const memoryUsage = Math.random() * 10 + 5; // MB
+      const repository = await getRecordRepositoryWithSigner();
       
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
+      // The input value is encrypted as the benchmarked type; its input proof gives the ciphertext size
+      setTransactionStatus({ visible: true, status: "pending", message: "Encrypting the input value..." });
+      const operand = await encryptOperand(newRecordData.fheType, newRecordData.value);
+      const ciphertextSize = ethers.dataLength(operand.inputProof);
+      
+      const benchmarkTool = await getBenchmarkToolWithSigner();
+      const benchmarkToolAddress = benchmarkTool ? await benchmarkTool.getAddress() : null;
+      
+      // Contribute every metric to the open batch for this scheme, operation and type; the plaintexts never leave the browser
+      const batchId = benchmarkTool ? await findOpenBatchId(benchmarkTool, newRecordData.scheme, newRecordData.operation, newRecordData.fheType) : null;
+      if (benchmarkTool && benchmarkToolAddress && batchId !== null) {
+        setTransactionStatus({ visible: true, status: "pending", message: "Encrypting metrics for the batch aggregate..." });
+        const { handles, inputProof } = await encryptUint32Values(benchmarkToolAddress, address, [
+          Math.round(measured.executionTime * 1000),
+          Math.round(measured.memoryUsage * 1024),
+          measured.gasUsed ?? 0,
+          ciphertextSize
+        ]);
+        await (await benchmarkTool.submitEncryptedBenchmarkMetrics(batchId, handles[0], handles[1], handles[2], handles[3], inputProof)).wait();
+      }
       
-      const recordId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const recordData = { 
-        data: encryptedData, 
+      // The operand handle is kept for reference only: no contract imports it, so it never enters the ACL and cannot be decrypted
+      const record: BenchmarkRecord = { 
+        id: createRecordId(),
+        encryptedData: operand.handles[0], 
         timestamp: Math.floor(Date.now() / 1000), 
         owner: address, 
         scheme: newRecordData.scheme,
         operation: newRecordData.operation,
-        executionTime,
-        memoryUsage
+        fheType: newRecordData.fheType,
+        operandMode: newRecordData.operandMode as BenchmarkRecord["operandMode"],
+        executionTime: measured.executionTime,
+        memoryUsage: measured.memoryUsage,
+        gasUsed: measured.gasUsed,
+        ciphertextSize,
+        executionStats: measured.executionStats,
+        warmup: measured.warmup,
+        iterations: measured.iterations,
+        samples: measured.samples,
+        batchId: batchId !== null ? Number(batchId) : undefined
       };
-      
-      await contract.setData(`benchmark_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(recordData)));
-      
-      const keysBytes = await contract.getData("benchmark_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(recordId);
-      await contract.setData("benchmark_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      await repository.save(record);
       
       setTransactionStatus({ visible: true, status: "success", message: "Benchmark completed successfully!" });
       await loadRecords();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewRecordData({ scheme: "TFHE", operation: "add", value: 100 });
+        setNewRecordData({ scheme: "TFHE", operation: "fheAdd", fheType: "euint32", operandMode: "ciphertext", value: 100, results: [] });
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Benchmark failed: " + (e.message || "Unknown error");
@@ -192,16 +249,22 @@ const App: React.FC = () => {
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
-    if (!isConnected) { alert("Please connect wallet first"); return null; }
-    setIsDecrypting(true);
+  const encryptOperand = async (fheType: string, value: number): Promise<EncryptedInputs> => {
+    if (!address) throw new Error("Please connect wallet first");
+    return encryptValue(OPERAND_CONTRACT, address, fheType, value);
+  };
+
+  // Only the connected provider can user-decrypt its contribution handles
+  const decryptContribution = async (batchId: number): Promise<Contribution[] | null> => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return null; }
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
-    } catch (e) { console.error("Decryption failed:", e); return null; } 
-    finally { setIsDecrypting(false); }
+      const benchmarkTool = await getBenchmarkToolReadOnly();
+      if (!benchmarkTool) return null;
+      const pairs = await Promise.all(METRICS.map((_, metric) => benchmarkTool.getContribution(batchId, address, metric)));
+      const handles = pairs.flatMap(pair => [pair.encryptedTotal, pair.encryptedCount]).filter(handle => handle !== ethers.ZeroHash);
+      const values = handles.length > 0 ? await userDecryptHandles(await benchmarkTool.getAddress(), handles) : {};
+      return pairs.map(pair => ({ total: Number(values[pair.encryptedTotal] ?? 0n), count: Number(values[pair.encryptedCount] ?? 0n) }));
+    } catch (e) { console.error("Contribution decryption failed:", e); return null; }
   };
 
   const filteredRecords = records.filter(record => {
@@ -214,49 +277,68 @@ const App: React.FC = () => {
   const schemes = [...new Set(records.map(r => r.scheme))];
   const operations = [...new Set(records.map(r => r.operation))];
 
+  const performanceGroups = groupPerformance(records);
+  const outlierIds = new Set(performanceGroups.flatMap(group => group.outlierIds));
+  const selectedGasProfile = gasProfile?.contracts.find(contract => contract.contract === gasContract);
+
   const renderPerformanceChart = () => {
-    const schemeData: Record<string, { time: number; count: number; memory: number }> = {};
-    
-    records.forEach(record => {
-      if (!schemeData[record.scheme]) {
-        schemeData[record.scheme] = { time: 0, count: 0, memory: 0 };
-      }
-      schemeData[record.scheme].time += record.executionTime;
-      schemeData[record.scheme].memory += record.memoryUsage;
-      schemeData[record.scheme].count++;
-    });
+    const maxTime = Math.max(...performanceGroups.map(group => group.time.max));
 
     return (
       <div className="performance-chart">
-        <h3>Average Performance by Scheme</h3>
+        <h3>Performance by Scheme and Operation</h3>
         <div className="chart-bars">
-          {Object.entries(schemeData).map(([scheme, data]) => (
-            <div key={scheme} className="chart-bar-container">
-              <div className="chart-label">{scheme}</div>
+          {performanceGroups.map(({ scheme, operation, time, samples, memory, outlierIds: noisy }) => (
+            <div key={`${scheme}/${operation}`} className="chart-bar-container">
+              <div className="chart-label">{scheme} · {operation} <small>({time.count} samples)</small></div>
               <div className="chart-bar-group">
-                <div className="chart-bar time" style={{ width: `${(data.time / data.count) / 2}%` }}>
-                  <span>{(data.time / data.count).toFixed(2)}ms</span>
+                <div className="chart-bar time" style={{ width: `${(time.median / maxTime) * 60}%` }}>
+                  <span>{time.median.toFixed(2)}ms</span>
                 </div>
-                <div className="chart-bar memory" style={{ width: `${(data.memory / data.count) * 5}%` }}>
-                  <span>{(data.memory / data.count).toFixed(2)}MB</span>
+                <div className="chart-bar memory" style={{ width: `${memory.median / 10}%` }}>
+                  <span>{memory.median.toFixed(2)}MB</span>
                 </div>
               </div>
+              {samples.length > 1 && <Distribution samples={samples} />}
+              <div className="chart-stats">
+                <span>min {time.min.toFixed(2)}</span>
+                <span>max {time.max.toFixed(2)}</span>
+                <span>p90 {time.p90.toFixed(2)}</span>
+                <span>p99 {time.p99.toFixed(2)}</span>
+                <span>σ {time.stddev.toFixed(2)}</span>
+                <span>95% CI {time.ci95.low.toFixed(2)}–{time.ci95.high.toFixed(2)} ms</span>
+                {noisy.length > 0 && <span className="outlier-flag">{noisy.length} noisy</span>}
+              </div>
             </div>
           ))}
         </div>
         <div className="chart-legend">
-          <div className="legend-item"><div className="color-box time"></div><span>Execution Time (ms)</span></div>
-          <div className="legend-item"><div className="color-box memory"></div><span>Memory Usage (MB)</span></div>
+          <div className="legend-item"><div className="color-box time"></div><span>Median Execution Time (ms)</span></div>
+          <div className="legend-item"><div className="color-box memory"></div><span>Median Memory Usage (MB)</span></div>
         </div>
       </div>
     );
   };
 
+  // Output of `npx hardhat benchmark:gas`
+  const handleGasProfileFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!Array.isArray(parsed?.contracts) || parsed.contracts.length === 0) throw new Error("expected a gas profile with at least one contract");
+      setGasProfile(parsed);
+      setGasContract(parsed.contracts[0].contract);
+    } catch (err: any) {
+      alert("Invalid gas profile: " + err.message);
+    }
+  };
+
   const tutorialSteps = [
     { title: "Connect Wallet", description: "Connect your Web3 wallet to access the FHE benchmark tool", icon: "🔗" },
-    { title: "Run Benchmark", description: "Select FHE scheme and operation to test performance", icon: "⚡", details: "Tests execution time and memory usage for different FHE operations" },
+    { title: "Run Benchmark", description: "Measure FHE operations with the Hardhat harness and publish the results", icon: "⚡", details: "npx hardhat benchmark:run records execution time, gas and memory usage against the FHEVM mock" },
     { title: "View Results", description: "Compare performance across different FHE schemes", icon: "📊", details: "Visual charts show comparative performance of TFHE, BFV, CKKS and other schemes" },
-    { title: "Decrypt Data", description: "Verify results by decrypting with your wallet signature", icon: "🔓", details: "Uses Zama FHE technology for secure decryption verification" }
+    { title: "Decrypt Your Contribution", description: "Decrypt what your wallet contributed to a batch", icon: "🔓", details: "Sign an EIP-712 request once; the relayer decrypts the contribution handles the ACL shares with your account until it expires" }
   ];
 
   if (loading) return (
@@ -336,8 +418,7 @@ const App: React.FC = () => {
               <button className="tech-button" onClick={() => setShowCreateModal(true)}>Run New Benchmark</button>
               <button className="tech-button" onClick={loadRecords}>Refresh Data</button>
               <button className="tech-button" onClick={() => {
-                const contract = getContractReadOnly();
-                contract?.isAvailable().then(() => alert("Service available!"));
+                getRecordRepositoryReadOnly().then(repository => repository?.isAvailable()).then(available => alert(available ? "Service available!" : "Service unavailable"));
               }}>Check Availability</button>
             </div>
           </div>
@@ -368,6 +449,138 @@ const App: React.FC = () => {
           {renderPerformanceChart()}
         </div>
         
+        <div className="gas-profile-section">
+          <div className="section-header">
+            <h2>Gas Profile</h2>
+            <div className="header-actions">
+              {gasProfile && (
+                <select value={gasContract} onChange={(e) => setGasContract(e.target.value)} className="tech-select">
+                  {gasProfile.contracts.map(contract => <option key={contract.contract} value={contract.contract}>{contract.contract}</option>)}
+                </select>
+              )}
+              <input type="file" accept="application/json" onChange={handleGasProfileFile} className="tech-input" />
+            </div>
+          </div>
+          <div className="records-list tech-card">
+            <div className="table-header gas-row">
+              <div className="header-cell">Function</div>
+              <div className="header-cell">Calls</div>
+              <div className="header-cell">Mean (gas)</div>
+              <div className="header-cell">Min (gas)</div>
+              <div className="header-cell">Max (gas)</div>
+              <div className="header-cell">Reverts</div>
+            </div>
+            {!selectedGasProfile && (
+              <div className="no-records"><p>Load the JSON written by npx hardhat benchmark:gas</p></div>
+            )}
+            {selectedGasProfile && (
+              <div className="record-row gas-row">
+                <div className="table-cell record-id">deployment</div>
+                <div className="table-cell">1</div>
+                <div className="table-cell">{selectedGasProfile.deploymentGas.toLocaleString()}</div>
+                <div className="table-cell">-</div>
+                <div className="table-cell">-</div>
+                <div className="table-cell">0</div>
+              </div>
+            )}
+            {selectedGasProfile?.functions.map(fn => (
+              <div className="record-row gas-row" key={fn.function}>
+                <div className="table-cell record-id">{fn.function}</div>
+                <div className="table-cell">{fn.calls}</div>
+                <div className="table-cell">{fn.mean.toLocaleString()}</div>
+                <div className="table-cell">{fn.min.toLocaleString()}</div>
+                <div className="table-cell">{fn.max.toLocaleString()}</div>
+                <div className="table-cell" title={fn.revertReason}>
+                  {fn.reverts > 0 ? <span className="status-badge reverted">{fn.reverts} · {fn.revertReason ?? "reverted"}</span> : 0}
+                </div>
+              </div>
+            ))}
+            {selectedGasProfile?.unmeasured.map(fn => (
+              <div className="record-row gas-row" key={fn.function}>
+                <div className="table-cell record-id">{fn.function}</div>
+                <div className="table-cell">0</div>
+                <div className="table-cell">-</div>
+                <div className="table-cell">-</div>
+                <div className="table-cell">-</div>
+                <div className="table-cell" title={fn.reason}>
+                  <span className="status-badge reverted">unmeasured · {fn.reason}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+          {gasProfile && (
+            <p className="gas-profile-note">Measured on {gasProfile.network} at {new Date(gasProfile.generatedAt).toLocaleString()}</p>
+          )}
+        </div>
+
+        {config.benchmarkToolAddress && (
+          <div className="aggregates-section">
+            <div className="section-header">
+              <h2>Encrypted Batch Aggregates</h2>
+              <div className="header-actions">
+                <select value={batchMetric} onChange={(e) => { const metric = Number(e.target.value); setBatchMetric(metric); loadBatchResults(metric); }} className="tech-select">
+                  {METRICS.map((metric, index) => <option key={metric.label} value={index}>{metric.label}</option>)}
+                </select>
+                <button onClick={() => loadBatchResults()} className="refresh-btn tech-button">Refresh</button>
+              </div>
+            </div>
+            <div className="records-list tech-card">
+              <div className="table-header aggregates-row">
+                <div className="header-cell">Batch</div>
+                <div className="header-cell">Benchmark</div>
+                <div className="header-cell">Submissions</div>
+                <div className="header-cell">Average ({METRICS[batchMetric].unit})</div>
+                <div className="header-cell">Min ({METRICS[batchMetric].unit})</div>
+                <div className="header-cell">Max ({METRICS[batchMetric].unit})</div>
+                <div className="header-cell">Std Dev ({METRICS[batchMetric].unit})</div>
+                <div className="header-cell">Decrypted</div>
+              </div>
+              {batchResults.length === 0 && (
+                <div className="no-records"><p>No decrypted batches for this metric yet</p></div>
+              )}
+              {batchResults.map(result => {
+                // Population variance from the decrypted sum of squares, scaled to display units
+                const { scale } = METRICS[batchMetric];
+                const count = Number(result.dataCount);
+                const mean = count > 0 ? Number(result.total) / count : 0;
+                const variance = count > 0 ? Math.max(Number(result.sumOfSquares) / count - mean * mean, 0) : 0;
+                return (
+                  <div className="record-row aggregates-row" key={result.batchId.toString()}>
+                    <div className="table-cell record-id">#{result.batchId.toString()}</div>
+                    <div className="table-cell" title={`Parameter set: ${result.tags[3] || "-"}`}>{result.tags.slice(0, 3).join(" / ")}</div>
+                    <div className="table-cell">{count}</div>
+                    <div className="table-cell">{(mean * scale).toFixed(2)}</div>
+                    <div className="table-cell">{count > 0 ? (Number(result.min) * scale).toFixed(2) : "-"}</div>
+                    <div className="table-cell">{count > 0 ? (Number(result.max) * scale).toFixed(2) : "-"}</div>
+                    <div className="table-cell">{(Math.sqrt(variance) * scale).toFixed(2)}</div>
+                    <div className="table-cell">{new Date(Number(result.decryptedAt) * 1000).toLocaleString()}</div>
+                  </div>
+                );
+              })}
+            </div>
+            {pendingDecryptions.length > 0 && (
+              <div className="records-list tech-card pending-decryptions">
+                <div className="table-header pending-row">
+                  <div className="header-cell">Request</div>
+                  <div className="header-cell">Batch</div>
+                  <div className="header-cell">Requested</div>
+                  <div className="header-cell">Status</div>
+                </div>
+                {pendingDecryptions.map(request => (
+                  <div className="record-row pending-row" key={request.requestId.toString()}>
+                    <div className="table-cell record-id">#{request.requestId.toString()}</div>
+                    <div className="table-cell">#{request.batchId.toString()}</div>
+                    <div className="table-cell">{new Date(Number(request.requestedAt) * 1000).toLocaleString()}</div>
+                    <div className="table-cell">
+                      <span className={`status-badge ${RequestStatus[Number(request.status)].toLowerCase()}`}>{RequestStatus[Number(request.status)]}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        
         <div className="records-section">
           <div className="section-header">
             <h2>Benchmark Records</h2>
@@ -391,17 +604,22 @@ const App: React.FC = () => {
                   ))}
                 </select>
               </div>
-              <button onClick={loadRecords} className="refresh-btn tech-button" disabled={isRefreshing}>
+              <button onClick={loadRecords} className="refresh-btn tech-button" disabled={isRefreshing || loadingMore}>
                 {isRefreshing ? "Refreshing..." : "Refresh"}
               </button>
             </div>
           </div>
           
+          {recordsIncomplete && (
+            <p className="records-note">contractDeployBlock is not set in config.json: listing the records of the legacy index and of the last 10,000 blocks only.</p>
+          )}
           <div className="records-list tech-card">
             <div className="table-header">
               <div className="header-cell">ID</div>
               <div className="header-cell">Scheme</div>
               <div className="header-cell">Operation</div>
+              <div className="header-cell">Type</div>
+              <div className="header-cell">Operand</div>
               <div className="header-cell">Time (ms)</div>
               <div className="header-cell">Memory (MB)</div>
               <div className="header-cell">Date</div>
@@ -411,14 +629,16 @@ const App: React.FC = () => {
             {filteredRecords.length === 0 ? (
               <div className="no-records">
                 <div className="no-records-icon"></div>
-                <p>No benchmark records found</p>
+                <p>{recordsError ?? "No benchmark records found"}</p>
                 <button className="tech-button primary" onClick={() => setShowCreateModal(true)}>Run First Benchmark</button>
               </div>
             ) : filteredRecords.map(record => (
               <div className="record-row" key={record.id} onClick={() => setSelectedRecord(record)}>
-                <div className="table-cell record-id">#{record.id.substring(0, 6)}</div>
+                <div className="table-cell record-id">#{record.id.substring(0, 6)}{outlierIds.has(record.id) && <span className="outlier-flag" title="Outside 1.5×IQR of its scheme/operation group">noisy</span>}</div>
                 <div className="table-cell scheme">{record.scheme}</div>
                 <div className="table-cell">{record.operation}</div>
+                <div className="table-cell">{record.fheType ?? "-"}</div>
+                <div className="table-cell">{record.operandMode ?? "-"}</div>
                 <div className="table-cell">{record.executionTime.toFixed(2)}</div>
                 <div className="table-cell">{record.memoryUsage.toFixed(2)}</div>
                 <div className="table-cell">{new Date(record.timestamp * 1000).toLocaleDateString()}</div>
@@ -429,6 +649,14 @@ const App: React.FC = () => {
                 </div>
               </div>
             ))}
+            
+            {recordsCursor !== null && (
+              <div className="load-more">
+                <button className="tech-button" onClick={loadMoreRecords} disabled={loadingMore || isRefreshing}>
+                  {loadingMore ? "Loading..." : "Load Older Benchmarks"}
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -440,17 +668,16 @@ const App: React.FC = () => {
           creating={creating} 
           recordData={newRecordData} 
           setRecordData={setNewRecordData}
+          encryptOperand={encryptOperand}
         />
       )}
       
       {selectedRecord && (
         <RecordDetailModal 
           record={selectedRecord} 
-          onClose={() => { setSelectedRecord(null); setDecryptedValue(null); }} 
-          decryptedValue={decryptedValue} 
-          setDecryptedValue={setDecryptedValue} 
-          isDecrypting={isDecrypting} 
-          decryptWithSignature={decryptWithSignature}
+          counterpart={findOperandModeCounterpart(records, selectedRecord)}
+          onClose={() => setSelectedRecord(null)} 
+          decryptContribution={decryptContribution}
         />
       )}
       
@@ -495,9 +722,27 @@ interface ModalCreateProps {
   creating: boolean;
   recordData: any;
   setRecordData: (data: any) => void;
+  encryptOperand: (fheType: string, value: number) => Promise<EncryptedInputs>;
 }
 
-const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating, recordData, setRecordData }) => {
+type EncryptionPreview = { handle: string; proofSize: number } | { error: string } | "encrypting" | null;
+
+const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating, recordData, setRecordData, encryptOperand }) => {
+  const [preview, setPreview] = useState<EncryptionPreview>(null);
+
+  // Each preview is a relayer round trip, so wait until the value stops changing
+  useEffect(() => {
+    if (!Number.isInteger(recordData.value) || recordData.value < 0) { setPreview(null); return; }
+    let stale = false;
+    const timer = setTimeout(() => {
+      setPreview("encrypting");
+      encryptOperand(recordData.fheType, recordData.value)
+        .then(({ handles, inputProof }) => { if (!stale) setPreview({ handle: handles[0], proofSize: ethers.dataLength(inputProof) }); })
+        .catch((e: any) => { if (!stale) setPreview({ error: e.message }); });
+    }, 500);
+    return () => { stale = true; clearTimeout(timer); };
+  }, [recordData.fheType, recordData.value]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setRecordData({ ...recordData, [name]: value });
@@ -508,11 +753,34 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
     setRecordData({ ...recordData, [name]: parseFloat(value) });
   };
 
+  const handleResultsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!Array.isArray(parsed)) throw new Error("expected an array of benchmark records");
+      // benchmark:matrix wraps each record in a cell, without one for unsupported combinations
+      const results: BenchmarkRecord[] = parsed.map((entry: any) => entry.record ?? (entry.supported === false ? null : entry)).filter(Boolean);
+      if (results.length === 0) throw new Error("no measured records");
+      setRecordData({ ...recordData, results, operation: results[0].operation, fheType: results[0].fheType, operandMode: results[0].operandMode ?? "ciphertext" });
+    } catch (err: any) {
+      alert("Invalid results file: " + err.message);
+    }
+  };
+
+  const operations = [...new Set<string>(recordData.results.map((r: BenchmarkRecord) => r.operation))];
+  const fheTypes = [...new Set<string>(recordData.results.filter((r: BenchmarkRecord) => r.operation === recordData.operation).map((r: BenchmarkRecord) => r.fheType))];
+  const operandModes = [...new Set<string>(recordData.results.filter((r: BenchmarkRecord) => r.operation === recordData.operation && r.fheType === recordData.fheType).map((r: BenchmarkRecord) => r.operandMode ?? "ciphertext"))];
+
   const handleSubmit = () => {
     if (!recordData.scheme || !recordData.operation) { 
       alert("Please select scheme and operation"); 
       return; 
     }
+    if (recordData.results.length === 0) {
+      alert("Please load a results file produced by npx hardhat benchmark:run");
+      return;
+    }
     onSubmit();
   };
 
@@ -544,12 +812,30 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
             <div className="form-group">
               <label>Operation *</label>
               <select name="operation" value={recordData.operation} onChange={handleChange} className="tech-select">
-                <option value="add">Addition</option>
-                <option value="multiply">Multiplication</option>
-                <option value="square">Square</option>
+                {operations.map(operation => <option key={operation} value={operation}>{operation}</option>)}
+              </select>
+            </div>
+            
+            <div className="form-group">
+              <label>Encrypted Type *</label>
+              <select name="fheType" value={recordData.fheType} onChange={handleChange} className="tech-select">
+                {fheTypes.map(fheType => <option key={fheType} value={fheType}>{fheType}</option>)}
+              </select>
+            </div>
+            
+            <div className="form-group">
+              <label>Operand Mode *</label>
+              <select name="operandMode" value={recordData.operandMode} onChange={handleChange} className="tech-select">
+                {operandModes.map(operandMode => <option key={operandMode} value={operandMode}>{operandMode}</option>)}
               </select>
             </div>
             
+            <div className="form-group">
+              <label>Harness Results *</label>
+              <input type="file" accept="application/json" onChange={handleResultsFile} className="tech-input" />
+              <small>{recordData.results.length} measured records loaded</small>
+            </div>
+            
             <div className="form-group">
               <label>Input Value *</label>
               <input 
@@ -570,8 +856,15 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
               <div className="plain-data"><span>Plain Value:</span><div>{recordData.value || 'No value entered'}</div></div>
               <div className="encryption-arrow">→</div>
               <div className="encrypted-data">
-                <span>Encrypted Data:</span>
-                <div>{recordData.value ? FHEEncryptNumber(recordData.value).substring(0, 50) + '...' : 'No value entered'}</div>
+                <span>Encrypted Input ({recordData.fheType}):</span>
+                {preview === null && <div>Enter a non-negative integer</div>}
+                {preview === "encrypting" && <div>Encrypting with the relayer SDK...</div>}
+                {preview !== null && typeof preview === "object" && ("error" in preview ? <div>{preview.error}</div> : (
+                  <>
+                    <div>{preview.handle}</div>
+                    <small className="encryption-sizes">handle {ethers.dataLength(preview.handle)} bytes · input proof {preview.proofSize} bytes · for {OPERAND_CONTRACT.substring(0, 10)}...</small>
+                  </>
+                ))}
               </div>
             </div>
           </div>
@@ -588,20 +881,28 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
   );
 };
 
+// Latest record of the same operation measured in the other operand mode, shown side by side in the detail view
+const findOperandModeCounterpart = (records: BenchmarkRecord[], record: BenchmarkRecord) => {
+  if (!record.operandMode) return undefined;
+  return records.find(r => r.scheme === record.scheme && r.operation === record.operation && r.fheType === record.fheType && r.operandMode !== undefined && r.operandMode !== record.operandMode);
+};
+
 interface RecordDetailModalProps {
   record: BenchmarkRecord;
+  counterpart?: BenchmarkRecord;
   onClose: () => void;
-  decryptedValue: number | null;
-  setDecryptedValue: (value: number | null) => void;
-  isDecrypting: boolean;
-  decryptWithSignature: (encryptedData: string) => Promise<number | null>;
+  decryptContribution: (batchId: number) => Promise<Contribution[] | null>;
 }
 
-const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ record, onClose, decryptedValue, setDecryptedValue, isDecrypting, decryptWithSignature }) => {
-  const handleDecrypt = async () => {
-    if (decryptedValue !== null) { setDecryptedValue(null); return; }
-    const decrypted = await decryptWithSignature(record.encryptedData);
-    if (decrypted !== null) setDecryptedValue(decrypted);
+const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ record, counterpart, onClose, decryptContribution }) => {
+  const [contribution, setContribution] = useState<Contribution[] | null>(null);
+  const [isDecryptingContribution, setIsDecryptingContribution] = useState(false);
+
+  const handleDecryptContribution = async () => {
+    if (record.batchId === undefined) return;
+    setIsDecryptingContribution(true);
+    try { setContribution(await decryptContribution(record.batchId)); }
+    finally { setIsDecryptingContribution(false); }
   };
 
   return (
@@ -615,31 +916,65 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ record, onClose,
           <div className="record-info">
             <div className="info-item"><span>Scheme:</span><strong>{record.scheme}</strong></div>
             <div className="info-item"><span>Operation:</span><strong>{record.operation}</strong></div>
+            <div className="info-item"><span>Encrypted Type:</span><strong>{record.fheType ?? "-"}</strong></div>
+            <div className="info-item"><span>Operand Mode:</span><strong>{record.operandMode ?? "-"}</strong></div>
             <div className="info-item"><span>Owner:</span><strong>{record.owner.substring(0, 6)}...{record.owner.substring(38)}</strong></div>
             <div className="info-item"><span>Date:</span><strong>{new Date(record.timestamp * 1000).toLocaleString()}</strong></div>
             <div className="info-item"><span>Execution Time:</span><strong>{record.executionTime.toFixed(2)} ms</strong></div>
             <div className="info-item"><span>Memory Usage:</span><strong>{record.memoryUsage.toFixed(2)} MB</strong></div>
+            {record.gasUsed !== undefined && <div className="info-item"><span>Gas Used:</span><strong>{record.gasUsed}</strong></div>}
+            {record.ciphertextSize !== undefined && <div className="info-item"><span>Ciphertext Size:</span><strong>{record.ciphertextSize} bytes</strong></div>}
           </div>
           
+          {record.executionStats && (
+            <div className="record-info">
+              <div className="info-item"><span>Iterations:</span><strong>{record.executionStats.count}{record.warmup !== undefined && ` (+${record.warmup} warmup)`}</strong></div>
+              <div className="info-item"><span>Min / Max:</span><strong>{record.executionStats.min.toFixed(2)} / {record.executionStats.max.toFixed(2)} ms</strong></div>
+              <div className="info-item"><span>Median:</span><strong>{record.executionStats.median.toFixed(2)} ms</strong></div>
+              <div className="info-item"><span>p90 / p99:</span><strong>{record.executionStats.p90.toFixed(2)} / {record.executionStats.p99.toFixed(2)} ms</strong></div>
+              <div className="info-item"><span>Std Dev:</span><strong>{record.executionStats.stddev.toFixed(2)} ms</strong></div>
+              <div className="info-item"><span>95% CI:</span><strong>{record.executionStats.ci95.low.toFixed(2)}–{record.executionStats.ci95.high.toFixed(2)} ms</strong></div>
+              <div className="info-item"><span>Outlier Iterations:</span><strong>{record.executionStats.outliers.length}</strong></div>
+            </div>
+          )}
+          {record.samples && record.samples.length > 1 && <Distribution samples={record.samples} />}
+          
+          {counterpart && (
+            <div className="record-info">
+              <div className="info-item"><span>{record.operandMode} Time:</span><strong>{record.executionTime.toFixed(2)} ms</strong></div>
+              <div className="info-item"><span>{counterpart.operandMode} Time:</span><strong>{counterpart.executionTime.toFixed(2)} ms</strong></div>
+              <div className="info-item"><span>{record.operandMode} Gas:</span><strong>{record.gasUsed ?? "-"}</strong></div>
+              <div className="info-item"><span>{counterpart.operandMode} Gas:</span><strong>{counterpart.gasUsed ?? "-"}</strong></div>
+            </div>
+          )}
+          
+          {record.batchId !== undefined && (
+            <div className="encrypted-data-section">
+              <h3>Your Contribution to Batch #{record.batchId}</h3>
+              {contribution ? (
+                <div className="record-info">
+                  {contribution.map((entry, index) => entry.count > 0 && (
+                    <div className="info-item" key={METRICS[index].label}>
+                      <span>{METRICS[index].label}:</span>
+                      <strong>{(entry.total * METRICS[index].scale).toFixed(2)} {METRICS[index].unit} over {entry.count} submission{entry.count === 1 ? "" : "s"}</strong>
+                    </div>
+                  ))}
+                  {contribution.every(entry => entry.count === 0) && <div className="info-item"><span>No submissions from this wallet</span></div>}
+                </div>
+              ) : (
+                <button className="decrypt-btn tech-button" onClick={handleDecryptContribution} disabled={isDecryptingContribution}>
+                  {isDecryptingContribution ? <span className="decrypt-spinner"></span> : "Decrypt Your Contribution"}
+                </button>
+              )}
+            </div>
+          )}
+          
           <div className="encrypted-data-section">
-            <h3>Encrypted Data</h3>
+            <h3>Encrypted Input Handle</h3>
             <div className="encrypted-data">{record.encryptedData.substring(0, 100)}...</div>
             <div className="tech-tag"><div className="fhe-icon"></div><span>FHE Encrypted</span></div>
-            <button className="decrypt-btn tech-button" onClick={handleDecrypt} disabled={isDecrypting}>
-              {isDecrypting ? <span className="decrypt-spinner"></span> : decryptedValue !== null ? "Hide Decrypted Value" : "Decrypt with Wallet"}
-            </button>
+            <p className="encryption-note">Kept for reference: the input was never imported on-chain, so nobody can decrypt it.</p>
           </div>
-          
-          {decryptedValue !== null && (
-            <div className="decrypted-data-section">
-              <h3>Decrypted Value</h3>
-              <div className="decrypted-value">{decryptedValue}</div>
-              <div className="decryption-notice">
-                <div className="warning-icon"></div>
-                <span>Decrypted value verified with your wallet signature</span>
-              </div>
-            </div>
-          )}
         </div>
         
         <div className="modal-footer">
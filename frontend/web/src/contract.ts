@@ -1,9 +1,13 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
+import benchmarkToolAbiJson from "./abi/FHEBenchmarkToolFHE.json";
 import configJson from "./config.json";
+import type { FHEBenchmarkToolFHE } from "../../../types/contracts/FHE_Benchmark_Tool.sol/FHEBenchmarkToolFHE";
+import type { UniversalAdapter } from "../../../types/contracts/UniversalAdapter";
 
 export const ABI = (abiJson as any).abi || abiJson;
+export const BENCHMARK_TOOL_ABI = (benchmarkToolAbiJson as any).abi || benchmarkToolAbiJson;
 export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
@@ -49,10 +53,10 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
+export async function getContractReadOnly(): Promise<UniversalAdapter | null> {
   try {
     const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const contract = new ethers.Contract(config.contractAddress, ABI, provider) as unknown as UniversalAdapter;
     
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
@@ -66,14 +70,14 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractWithSigner(): Promise<UniversalAdapter> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(config.contractAddress, ABI, signer) as unknown as UniversalAdapter;
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -81,6 +85,38 @@ export async function getContractWithSigner() {
   }
 }
 
+// FHEBenchmarkToolFHE aggregate, optional: null when no benchmarkToolAddress is configured
+export async function getBenchmarkToolReadOnly(): Promise<FHEBenchmarkToolFHE | null> {
+  if (!config.benchmarkToolAddress) return null;
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(config.benchmarkToolAddress, BENCHMARK_TOOL_ABI, provider) as unknown as FHEBenchmarkToolFHE;
+  } catch (error) {
+    console.error("Failed to create read-only benchmark tool contract:", error);
+    return null;
+  }
+}
+
+export async function getBenchmarkToolWithSigner(): Promise<FHEBenchmarkToolFHE | null> {
+  if (!config.benchmarkToolAddress) return null;
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  return new ethers.Contract(config.benchmarkToolAddress, BENCHMARK_TOOL_ABI, signer) as unknown as FHEBenchmarkToolFHE;
+}
+
+// Open batch tagged with the given scheme, operation and encrypted type, whatever its parameter set
+export async function findOpenBatchId(benchmarkTool: FHEBenchmarkToolFHE, scheme: string, operation: string, fheType: string): Promise<bigint | null> {
+  const tags = [scheme, operation, fheType].map(tag => ethers.encodeBytes32String(tag));
+  for (const id of await benchmarkTool.getOpenBatchIds()) {
+    const batch = await benchmarkTool.batches(id);
+    if (batch.scheme === tags[0] && batch.operation === tags[1] && batch.fheType === tags[2]) return id;
+  }
+  return null;
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+// fhevm.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// The WASM modules and the network public key are loaded once per page
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      if (!window.ethereum) throw new Error("No injected wallet");
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, network: window.ethereum });
+    })();
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+}
+
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+// Encrypts uint32 values that only `contractAddress` may consume, on behalf of `userAddress`; one proof covers all handles
+export async function encryptUint32Values(contractAddress: string, userAddress: string, values: number[]): Promise<EncryptedInputs> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  values.forEach(value => input.add32(value));
+  const { handles, inputProof } = await input.encrypt();
+  return { handles: handles.map(handle => ethers.hexlify(handle)), inputProof: ethers.hexlify(inputProof) };
+}
+
+const ACL_ABI = ["function isAllowed(bytes32 handle, address account) view returns (bool)"];
+
+interface UserDecryptSession {
+  keypair: { publicKey: string; privateKey: string };
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// Keypairs and the EIP-712 signatures authorizing them are kept in memory per account and contract,
+// so the wallet is only asked again once the signed `durationDays` have run out
+const userDecryptSessions = new Map<string, UserDecryptSession>();
+
+const sessionExpired = (session: UserDecryptSession) =>
+  Date.now() >= (session.startTimestamp + session.durationDays * 24 * 60 * 60) * 1000;
+
+async function getUserDecryptSession(instance: FhevmInstance, signer: ethers.Signer, contractAddress: string, durationDays: number): Promise<UserDecryptSession> {
+  const key = `${(await signer.getAddress()).toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const cached = userDecryptSessions.get(key);
+  if (cached && !sessionExpired(cached)) return cached;
+
+  const keypair = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  const session = { keypair, signature: signature.replace("0x", ""), startTimestamp, durationDays };
+  userDecryptSessions.set(key, session);
+  return session;
+}
+
+// The relayer only decrypts a handle when the ACL lists both the user and the contract on it
+async function assertUserDecryptAllowed(provider: ethers.Provider, contractAddress: string, userAddress: string, handles: string[]) {
+  const acl = new ethers.Contract(SepoliaConfig.aclContractAddress, ACL_ABI, provider);
+  for (const handle of handles) {
+    const [userAllowed, contractAllowed] = await Promise.all([acl.isAllowed(handle, userAddress), acl.isAllowed(handle, contractAddress)]);
+    if (!userAllowed || !contractAllowed) {
+      throw new Error(`handle ${handle.substring(0, 10)}... is not shared with ${userAllowed ? contractAddress : userAddress}`);
+    }
+  }
+}
+
+// EIP-712 user decryption: only handles the contract granted to the connected account with `FHE.allow` decrypt
+export async function userDecryptHandles(contractAddress: string, handles: string[], durationDays = 1): Promise<Record<string, bigint>> {
+  const instance = await getFhevmInstance();
+  if (!window.ethereum) throw new Error("No injected wallet");
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const userAddress = await signer.getAddress();
+  await assertUserDecryptAllowed(provider, contractAddress, userAddress, handles);
+
+  const session = await getUserDecryptSession(instance, signer, contractAddress, durationDays);
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    session.keypair.privateKey,
+    session.keypair.publicKey,
+    session.signature,
+    [contractAddress],
+    userAddress,
+    session.startTimestamp,
+    session.durationDays
+  );
+  return Object.fromEntries(handles.map(handle => [handle, BigInt(results[handle] as bigint | string)]));
+}
+
+// Encrypts a single value as `fheType` (ebool, euint8 ... euint128), e.g. to measure its ciphertext size
+export async function encryptValue(contractAddress: string, userAddress: string, fheType: string, value: number): Promise<EncryptedInputs> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  switch (fheType) {
+    case "ebool": input.addBool(value !== 0); break;
+    case "euint8": input.add8(value); break;
+    case "euint16": input.add16(value); break;
+    case "euint32": input.add32(value); break;
+    case "euint64": input.add64(value); break;
+    case "euint128": input.add128(value); break;
+    default: throw new Error(`Cannot encrypt values of type ${fheType}`);
+  }
+  const { handles, inputProof } = await input.encrypt();
+  return { handles: handles.map(handle => ethers.hexlify(handle)), inputProof: ethers.hexlify(inputProof) };
+}
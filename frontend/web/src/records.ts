@@ -0,0 +1,313 @@
+// records.ts
+import { ethers } from "ethers";
+import { config, getContractReadOnly, getContractWithSigner } from "./contract";
+import type { BenchmarkRecord } from "../../../src/benchmark/types";
+import type { UniversalAdapter } from "../../../types/contracts/UniversalAdapter";
+
+// Records live in the UniversalAdapter's key/value store as UTF-8 JSON under `benchmark_<id>`.
+// They are indexed by the adapter's `DataStored` events, so publishing is a single append-only write
+const RECORD_PREFIX = "benchmark_";
+// Id list the dashboard used to rewrite on every publish; no longer updated, and only read while the deploy block
+// is unset, to keep listing the records published before the event index
+const LEGACY_INDEX_KEY = "benchmark_keys";
+// Public Sepolia RPCs cap the block range of a single eth_getLogs call
+const LOG_PAGE_SIZE = 10_000;
+// Records per page of the dashboard table, and how many of their reads are in flight at once.
+// ethers sends concurrent calls to one JsonRpcProvider as a single JSON-RPC batch
+export const RECORD_PAGE_SIZE = 20;
+const READ_CONCURRENCY = 8;
+const recordKey = (id: string) => `${RECORD_PREFIX}${id}`;
+
+export const RECORD_VERSION = 1;
+
+export class RecordRepositoryError extends Error {
+  constructor(message: string, readonly key: string) {
+    super(message);
+    this.name = "RecordRepositoryError";
+  }
+}
+
+// The stored bytes are not UTF-8 JSON
+export class RecordDecodeError extends RecordRepositoryError {
+  constructor(message: string, key: string) {
+    super(message, key);
+    this.name = "RecordDecodeError";
+  }
+}
+
+// A field is missing or has the wrong type, after migrating to the current version
+export class RecordValidationError extends RecordRepositoryError {
+  constructor(key: string, readonly field: string, expected: string) {
+    super(`${key}: ${field} must be ${expected}`, key);
+    this.name = "RecordValidationError";
+  }
+}
+
+// Written by a newer dashboard than this one
+export class UnsupportedRecordVersionError extends RecordRepositoryError {
+  constructor(key: string, readonly version: unknown) {
+    super(`${key}: unsupported record version ${String(version)}`, key);
+    this.name = "UnsupportedRecordVersionError";
+  }
+}
+
+export class RecordNotFoundError extends RecordRepositoryError {
+  constructor(key: string) {
+    super(`${key}: no record stored`, key);
+    this.name = "RecordNotFoundError";
+  }
+}
+
+// What a record looks like on chain: the id is the storage key, not part of the payload
+type StoredRecord = Omit<BenchmarkRecord, "id"> & { version: typeof RECORD_VERSION };
+
+// Each migration lifts a payload from version `n` to `n + 1`. Version 0 is the unversioned
+// format that stored the encrypted value under `data`
+type Migration = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, Migration> = {
+  0: ({ data, ...rest }) => ({ ...rest, encryptedData: data, version: 1 })
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+type FieldRule = { expected: string; check: (value: unknown) => boolean; optional?: boolean };
+
+const SAMPLE_SUMMARY_FIELDS = ["count", "mean", "min", "max", "median", "p90", "p99", "stddev"];
+
+const RECORD_SCHEMA: Record<keyof Omit<StoredRecord, "version">, FieldRule> = {
+  scheme: { expected: "a non-empty string", check: value => typeof value === "string" && value !== "" },
+  encryptedData: { expected: "a string", check: value => typeof value === "string" },
+  timestamp: { expected: "a unix timestamp", check: value => Number.isInteger(value) && (value as number) > 0 },
+  owner: { expected: "an address", check: value => typeof value === "string" && ethers.isAddress(value) },
+  operation: { expected: "a non-empty string", check: value => typeof value === "string" && value !== "" },
+  fheType: { expected: "a string", check: value => typeof value === "string", optional: true },
+  operandMode: { expected: "ciphertext or scalar", check: value => value === "ciphertext" || value === "scalar", optional: true },
+  seed: { expected: "a number", check: isFiniteNumber, optional: true },
+  executionTime: { expected: "a number", check: isFiniteNumber },
+  executionStats: {
+    expected: "a sample summary",
+    check: value => isObject(value) && SAMPLE_SUMMARY_FIELDS.every(field => isFiniteNumber(value[field])) && isObject(value.ci95) && Array.isArray(value.outliers),
+    optional: true
+  },
+  warmup: { expected: "a non-negative integer", check: value => Number.isInteger(value) && (value as number) >= 0, optional: true },
+  iterations: { expected: "a positive integer", check: value => Number.isInteger(value) && (value as number) > 0, optional: true },
+  samples: { expected: "an array of numbers", check: value => Array.isArray(value) && value.every(isFiniteNumber), optional: true },
+  memoryUsage: { expected: "a number", check: isFiniteNumber },
+  gasUsed: { expected: "a number", check: isFiniteNumber, optional: true },
+  ciphertextSize: { expected: "a number", check: isFiniteNumber, optional: true },
+  batchId: { expected: "a batch id", check: value => Number.isInteger(value) && (value as number) > 0, optional: true }
+};
+
+function validate(key: string, payload: Record<string, unknown>): StoredRecord {
+  for (const [field, rule] of Object.entries(RECORD_SCHEMA)) {
+    const value = payload[field];
+    if (value === undefined && rule.optional) continue;
+    if (!rule.check(value)) throw new RecordValidationError(key, field, rule.expected);
+  }
+  return payload as StoredRecord;
+}
+
+function recordVersion(key: string, version: unknown): number {
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0 || version > RECORD_VERSION) {
+    throw new UnsupportedRecordVersionError(key, version);
+  }
+  return version;
+}
+
+function migrate(key: string, payload: Record<string, unknown>): Record<string, unknown> {
+  let version = recordVersion(key, payload.version ?? 0);
+  while (version !== RECORD_VERSION) {
+    payload = MIGRATIONS[version](payload);
+    version = recordVersion(key, payload.version);
+  }
+  return payload;
+}
+
+function decodeJson(key: string, bytes: string): unknown {
+  try {
+    return JSON.parse(ethers.toUtf8String(bytes));
+  } catch (e) {
+    throw new RecordDecodeError(`${key}: ${(e as Error).message}`, key);
+  }
+}
+
+export function encodeRecord(record: BenchmarkRecord): Uint8Array {
+  const { id, ...fields } = record;
+  const stored = validate(recordKey(id), { ...fields, version: RECORD_VERSION });
+  return ethers.toUtf8Bytes(JSON.stringify(stored));
+}
+
+// Decodes any known record version into the current shape
+export function decodeRecord(id: string, bytes: string): BenchmarkRecord {
+  const key = recordKey(id);
+  const payload = decodeJson(key, bytes);
+  if (!isObject(payload)) throw new RecordDecodeError(`${key}: expected a JSON object`, key);
+  const { version, ...fields } = validate(key, migrate(key, payload));
+  return { id, ...fields };
+}
+
+// First block the event scan reads. Looking it up needs historical state that public RPCs refuse, and scanning
+// from genesis takes hundreds of eth_getLogs calls, so it is configured; null while unset
+function deploymentBlock(): number | null {
+  const block = config.contractDeployBlock;
+  return Number.isInteger(block) && block > 0 ? block : null;
+}
+
+async function legacyIds(adapter: UniversalAdapter): Promise<string[]> {
+  const bytes = await adapter.getData(LEGACY_INDEX_KEY);
+  if (ethers.dataLength(bytes) === 0) return [];
+  try {
+    const ids: unknown = JSON.parse(ethers.toUtf8String(bytes));
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : [];
+  } catch (e) {
+    console.error("Error parsing the legacy record index:", e);
+    return [];
+  }
+}
+
+interface RecordIndex {
+  // Every record id, oldest first, including the ones stored since the previous call
+  ids(): Promise<string[]>;
+  // False while `contractDeployBlock` is unset: the ids then come from the legacy id list and the most recent
+  // LOG_PAGE_SIZE blocks, so records published in between are missing
+  readonly complete: boolean;
+}
+
+function createRecordIndex(adapter: UniversalAdapter): RecordIndex {
+  const seen = new Set<string>();
+  const ids: string[] = [];
+  const firstBlock = deploymentBlock();
+  let nextBlock: number | null = firstBlock;
+
+  const add = (id: string) => {
+    // A key written twice is still one record
+    if (!seen.has(id)) {
+      seen.add(id);
+      ids.push(id);
+    }
+  };
+
+  return {
+    complete: firstBlock !== null,
+    async ids() {
+      const provider = adapter.runner?.provider;
+      if (!provider) throw new Error("UniversalAdapter has no provider");
+      const latest = await provider.getBlockNumber();
+      if (nextBlock === null) {
+        (await legacyIds(adapter)).forEach(add);
+        nextBlock = Math.max(0, latest - LOG_PAGE_SIZE + 1);
+      }
+      for (let fromBlock = nextBlock; fromBlock <= latest; fromBlock += LOG_PAGE_SIZE) {
+        const toBlock = Math.min(fromBlock + LOG_PAGE_SIZE - 1, latest);
+        for (const event of await adapter.queryFilter(adapter.filters.DataStored, fromBlock, toBlock)) {
+          const { key } = event.args;
+          if (!key.startsWith(RECORD_PREFIX) || key === LEGACY_INDEX_KEY) continue;
+          add(key.slice(RECORD_PREFIX.length));
+        }
+        nextBlock = toBlock + 1;
+      }
+      return [...ids];
+    }
+  };
+}
+
+export interface RecordLoadFailure {
+  id: string;
+  error: RecordRepositoryError;
+}
+
+// Position in the oldest-first id list; the ids before it have not been loaded yet.
+// Publishing only appends ids, so a cursor stays valid while new records arrive
+export type RecordCursor = number;
+
+export interface RecordPage {
+  // Newest first
+  records: BenchmarkRecord[];
+  failures: RecordLoadFailure[];
+  // Where the next, older page starts; null once the oldest record is loaded
+  next: RecordCursor | null;
+}
+
+export interface LoadPageOptions {
+  // Load the records older than this cursor; the newest page when omitted
+  before?: RecordCursor;
+  limit?: number;
+  // Called with each record as soon as it is read, before the page completes
+  onRecord?: (record: BenchmarkRecord) => void;
+}
+
+export interface RecordRepository {
+  // False when `contractDeployBlock` is unset and the list may miss records; see RecordIndex
+  readonly complete: boolean;
+  isAvailable(): Promise<boolean>;
+  listIds(): Promise<string[]>;
+  get(id: string): Promise<BenchmarkRecord>;
+  // Records that could not be read are reported in `failures` rather than failing the page
+  loadPage(options?: LoadPageOptions): Promise<RecordPage>;
+  save(record: BenchmarkRecord): Promise<void>;
+}
+
+async function forEachConcurrently<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+export function createRecordRepository(adapter: UniversalAdapter): RecordRepository {
+  const index = createRecordIndex(adapter);
+  const listIds = () => index.ids();
+
+  const get = async (id: string) => {
+    const bytes = await adapter.getData(recordKey(id));
+    if (ethers.dataLength(bytes) === 0) throw new RecordNotFoundError(recordKey(id));
+    return decodeRecord(id, bytes);
+  };
+
+  return {
+    complete: index.complete,
+    isAvailable: () => adapter.isAvailable(),
+    listIds,
+    get,
+    async loadPage({ before, limit = RECORD_PAGE_SIZE, onRecord } = {}) {
+      const ids = await listIds();
+      const end = Math.min(before ?? ids.length, ids.length);
+      const start = Math.max(0, end - limit);
+      const records: BenchmarkRecord[] = [];
+      const failures: RecordLoadFailure[] = [];
+      await forEachConcurrently(ids.slice(start, end).reverse(), READ_CONCURRENCY, async id => {
+        try {
+          const record = await get(id);
+          records.push(record);
+          onRecord?.(record);
+        } catch (e) {
+          if (!(e instanceof RecordRepositoryError)) throw e;
+          failures.push({ id, error: e });
+        }
+      });
+      records.sort((a, b) => b.timestamp - a.timestamp);
+      return { records, failures, next: start > 0 ? start : null };
+    },
+    async save(record) {
+      // Record ids are unique per publish, so concurrent publishers never overwrite each other
+      await (await adapter.setData(recordKey(record.id), encodeRecord(record))).wait();
+    }
+  };
+}
+
+// Shared across refreshes so each one only scans the blocks since the last
+let readOnlyRepository: Promise<RecordRepository | null> | null = null;
+
+export function getRecordRepositoryReadOnly(): Promise<RecordRepository | null> {
+  readOnlyRepository ??= getContractReadOnly().then(adapter => adapter ? createRecordRepository(adapter) : null);
+  // A failed connection is retried on the next call
+  readOnlyRepository.then(repository => { if (!repository) readOnlyRepository = null; });
+  return readOnlyRepository;
+}
+
+export async function getRecordRepositoryWithSigner(): Promise<RecordRepository> {
+  return createRecordRepository(await getContractWithSigner());
+}
@@ -3,6 +3,12 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // the stats module is shared with the Node benchmark harness
+      allow: [".", "../../src/benchmark"]
+    }
+  },
   define: {
     'process.env': process.env
   },
@@ -3,6 +3,9 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/benchmark";
+import "./tasks/oracle";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
@@ -0,0 +1,37 @@
+/**
+ * Headless entry point for benchmark suites, for machines without the dashboard.
+ *
+ *   npx hardhat node
+ *   HARDHAT_NETWORK=localhost npm run benchmark -- scripts/suites/arithmetic.yml [--out results.json]
+ *
+ * Equivalent to `npx hardhat benchmark:suite --network localhost --suite <file>`.
+ */
+import hre from "hardhat";
+
+function usage(): never {
+  console.error("Usage: run_benchmarks.ts <suite.(json|yml|yaml)> [--out <file>]");
+  process.exit(1);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  let suite: string | undefined;
+  let out: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--out") {
+      out = args[++i] ?? usage();
+    } else if (suite === undefined) {
+      suite = args[i];
+    } else {
+      usage();
+    }
+  }
+  if (suite === undefined) usage();
+
+  await hre.run("benchmark:suite", { suite, out });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,551 @@
+import { ContractFactory, encodeBytes32String } from "ethers";
+import type { BaseContract, ContractTransactionResponse, Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { IACL__factory } from "../../types";
+import type { FHEBenchmarkToolFHE, FHEOperationBenchmark } from "../../types";
+import { CsrFeedbackFHE__factory } from "../../types/factories/contracts/CsrFeedbackFHE__factory";
+import { CuratedListsFHE__factory } from "../../types/factories/contracts/CuratedListsFHE__factory";
+import { FHEPowerMaintenance__factory } from "../../types/factories/contracts/FHEPowerMaintenance__factory";
+import { FedClusterFHE__factory } from "../../types/factories/contracts/FedClusterFHE__factory";
+import { SecureFederatedDatabase__factory } from "../../types/factories/contracts/SecureFederatedDatabase__factory";
+import { VeriIdWalletFHE__factory } from "../../types/factories/contracts/VeriIdWalletFHE__factory";
+import { VeterinaryFHERecordNetwork__factory } from "../../types/factories/contracts/VeterinaryFHERecordNetwork__factory";
+import { deployOperationBenchmark } from "./harness";
+import { FHE_TYPES } from "./operations";
+import { createOracleRelayer, revertReason } from "./oracle";
+import type { OracleRelayer } from "./oracle";
+import { Metric } from "./types";
+import type { ContractGasProfile, FunctionGas, GasProfile, UnmeasuredFunction } from "./types";
+
+interface Samples {
+  gas: bigint[];
+  reverts: number;
+  revertReason?: string;
+}
+
+interface Profiled {
+  name: string;
+  address: string;
+  contract: BaseContract;
+  deploymentGas: bigint;
+  samples: Map<string, Samples>;
+  /** Why a function has no successful call, where the scenario knows more than its reverts say. */
+  notes: Map<string, string>;
+}
+
+const tag = encodeBytes32String;
+
+const DAY = 24 * 60 * 60;
+
+async function deployProfiled<T extends BaseContract>(name: string, deploying: Promise<T>) {
+  const contract = await deploying;
+  const receipt = await contract.deploymentTransaction()!.wait();
+  const profile: Profiled = {
+    name,
+    address: await contract.getAddress(),
+    contract,
+    deploymentGas: receipt!.gasUsed,
+    samples: new Map(),
+    notes: new Map(),
+  };
+  return { contract, profile };
+}
+
+function samplesFor(profile: Profiled, fn: string): Samples {
+  let samples = profile.samples.get(fn);
+  if (!samples) {
+    samples = { gas: [], reverts: 0 };
+    profile.samples.set(fn, samples);
+  }
+  return samples;
+}
+
+/** Sends one transaction and files its gas, or its revert reason, under `fn`. */
+async function measure(profile: Profiled, fn: string, send: () => Promise<ContractTransactionResponse>) {
+  const samples = samplesFor(profile, fn);
+  try {
+    const receipt = await (await send()).wait();
+    samples.gas.push(receipt!.gasUsed);
+  } catch (error) {
+    samples.reverts++;
+    samples.revertReason = revertReason(profile.contract.interface, error);
+  }
+}
+
+/**
+ * Runs the mock decryption oracle and files the callback transactions it mined
+ * under the profiled contract and function they called.
+ */
+async function measureOracle(hre: HardhatRuntimeEnvironment, profiles: Profiled[]) {
+  const provider = hre.ethers.provider;
+  const fromBlock = await provider.getBlockNumber();
+  await hre.fhevm.awaitDecryptionOracle();
+  const toBlock = await provider.getBlockNumber();
+
+  for (let number = fromBlock + 1; number <= toBlock; number++) {
+    const block = await provider.getBlock(number, true);
+    for (const tx of block!.prefetchedTransactions) {
+      const profile = profiles.find((p) => p.address.toLowerCase() === tx.to?.toLowerCase());
+      const parsed = profile?.contract.interface.parseTransaction(tx);
+      if (!profile || !parsed) continue;
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      const samples = samplesFor(profile, parsed.name);
+      if (receipt!.status === 1) {
+        samples.gas.push(receipt!.gasUsed);
+      } else {
+        samples.reverts++;
+      }
+    }
+  }
+}
+
+/** A relayer that answers only the requests made from the next block on. */
+async function startRelayer(hre: HardhatRuntimeEnvironment): Promise<OracleRelayer> {
+  return createOracleRelayer(hre, { fromBlock: (await hre.ethers.provider.getBlockNumber()) + 1 });
+}
+
+/**
+ * Answers the decryption requests made since the relayer started and files each
+ * callback under its function; `callbacks` that no request reached are noted.
+ */
+async function relayCallbacks(profile: Profiled, relayer: OracleRelayer, callbacks: string[]) {
+  for (const relayed of await relayer.relay()) {
+    if (relayed.contract.toLowerCase() !== profile.address.toLowerCase()) continue;
+    // The relayer names callbacks from the compiled artifacts; these contracts only have bindings
+    const callback = profile.contract.interface.getFunction(relayed.callback)?.name ?? relayed.callback;
+    const samples = samplesFor(profile, callback);
+    if (relayed.status === "fulfilled") {
+      samples.gas.push(BigInt(relayed.gasUsed!));
+    } else {
+      samples.reverts++;
+      samples.revertReason = relayed.reason;
+    }
+  }
+  for (const callback of callbacks) {
+    if (!profile.samples.has(callback)) {
+      profile.notes.set(callback, "never called back: no decryption request reached the oracle");
+    }
+  }
+}
+
+async function increaseTime(hre: HardhatRuntimeEnvironment, seconds: number) {
+  await hre.network.provider.send("evm_increaseTime", [seconds]);
+  await hre.network.provider.send("evm_mine");
+}
+
+async function encryptHandles(hre: HardhatRuntimeEnvironment, contract: string, user: Signer, values: number[]) {
+  const input = hre.fhevm.createEncryptedInput(contract, await user.getAddress());
+  values.forEach((value) => input.add32(value));
+  return input.encrypt();
+}
+
+/**
+ * Walks FHEBenchmarkToolFHE through its full lifecycle: administration, every
+ * submission path, answered decryptions, and a cancelled and a retried request.
+ */
+async function profileBenchmarkTool(hre: HardhatRuntimeEnvironment): Promise<Profiled> {
+  const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+  const factory = await hre.ethers.getContractFactory("FHEBenchmarkToolFHE");
+  const { contract, profile } = await deployProfiled("FHEBenchmarkToolFHE", factory.deploy());
+  const tool = contract as unknown as FHEBenchmarkToolFHE;
+  await hre.fhevm.assertCoprocessorInitialized(tool, "FHEBenchmarkToolFHE");
+  const call = (fn: string, send: () => Promise<ContractTransactionResponse>) => measure(profile, fn, send);
+
+  for (const provider of [alice, bob, carol]) {
+    await call("addProvider", () => tool.addProvider(provider.address));
+  }
+  await call("removeProvider", () => tool.removeProvider(carol.address));
+  await call("setSubmissionCooldown", () => tool.setSubmissionCooldown(60));
+  await call("setDecryptionCooldown", () => tool.setDecryptionCooldown(60));
+  await call("setProviderSubmissionCooldown", () => tool.setProviderSubmissionCooldown(bob.address, 30));
+  await call("setCooldownExempt", () => tool.setCooldownExempt(alice.address, true));
+  await call("setDefaultMinProviderCount", () => tool.setDefaultMinProviderCount(2));
+  await call("setDecryptionTimeout", () => tool.setDecryptionTimeout(DAY));
+
+  const pauser = await tool.PAUSER_ROLE();
+  await call("grantRole", () => tool.grantRole(pauser, bob.address));
+  await call("revokeRole", () => tool.revokeRole(pauser, bob.address));
+  await call("grantRole", () => tool.grantRole(pauser, bob.address));
+  await call("renounceRole", () => tool.connect(bob).renounceRole(pauser));
+  await call("pause", () => tool.pause());
+  await call("unpause", () => tool.unpause());
+
+  const toolAddress = profile.address;
+  await call("openBatch", () => tool.openBatch(tag("TFHE"), tag("fheAdd"), tag("euint32"), tag("default")));
+  await call("setBatchPolicy", () => tool.setBatchPolicy(1, 2, 0, 0));
+  await call("submitBenchmarkData", () => tool.connect(alice).submitBenchmarkData(1, 120));
+  const single = await encryptHandles(hre, toolAddress, bob, [80]);
+  await call("submitEncryptedBenchmarkData", () =>
+    tool.connect(bob).submitEncryptedBenchmarkData(1, single.handles[0], single.inputProof),
+  );
+  // Bob's metrics come after his 30-second cooldown; two providers let the memory usage be decrypted
+  await increaseTime(hre, 30);
+  for (const { provider, values } of [
+    { provider: alice, values: [5000, 2048, 90000, 64] },
+    { provider: bob, values: [7000, 1024, 91000, 64] },
+  ]) {
+    const metrics = await encryptHandles(hre, toolAddress, provider, values);
+    const [executionTime, memoryUsage, gasUsed, ciphertextSize] = metrics.handles;
+    await call("submitEncryptedBenchmarkMetrics", () =>
+      tool
+        .connect(provider)
+        .submitEncryptedBenchmarkMetrics(1, executionTime, memoryUsage, gasUsed, ciphertextSize, metrics.inputProof),
+    );
+  }
+  const batch = await encryptHandles(hre, toolAddress, alice, [100, 110, 90, 105]);
+  await call("submitBenchmarkDataBatch", () =>
+    tool.connect(alice).submitBenchmarkDataBatch(1, batch.handles, batch.inputProof),
+  );
+  await call("closeBatch", () => tool.closeBatch(1));
+
+  await call("requestBenchmarkResultDecryption", () => tool.requestBenchmarkResultDecryption(1));
+  await increaseTime(hre, 60);
+  await call("requestMetricDecryption", () => tool.requestMetricDecryption(1, Metric.MemoryUsage));
+  await measureOracle(hre, [profile]);
+
+  // Second batch closes itself on its submission limit, then exercises the request lifecycle
+  await call("openBatch", () => tool.openBatch(tag("TFHE"), tag("fheMul"), tag("euint32"), tag("default")));
+  await call("setBatchPolicy", () => tool.setBatchPolicy(2, 2, 2, 0));
+  await call("submitBenchmarkData", () => tool.connect(alice).submitBenchmarkData(2, 300));
+  await call("submitBenchmarkData", () => tool.connect(bob).submitBenchmarkData(2, 500));
+  await increaseTime(hre, 60);
+  await call("requestMetricDecryption", () => tool.requestMetricDecryption(2, Metric.ExecutionTime));
+  const cancelled = await tool.latestRequestIds(2, Metric.ExecutionTime);
+  await call("cancelDecryptionRequest", () => tool.cancelDecryptionRequest(cancelled));
+  await increaseTime(hre, 60);
+  await call("requestMetricDecryption", () => tool.requestMetricDecryption(2, Metric.ExecutionTime));
+  const expired = await tool.latestRequestIds(2, Metric.ExecutionTime);
+  await increaseTime(hre, DAY);
+  await call("retryDecryptionRequest", () => tool.retryDecryptionRequest(expired));
+  // The contract rejects the answers to the cancelled and expired requests, which aborts the oracle run
+  await hre.fhevm.awaitDecryptionOracle().catch(() => undefined);
+
+  await call("transferOwnership", () => tool.transferOwnership(alice.address));
+  await call("acceptOwnership", () => tool.connect(alice).acceptOwnership());
+  return profile;
+}
+
+// The contracts below ship as typechain bindings only, built against the Sepolia
+// FHEVM deployment. They are redeployed against the mock's ACL and coprocessor,
+// and fed handles shared with them through the ACL: they take raw handles and
+// never import encrypted inputs. Ids for later calls are read back from the
+// state earlier calls created. Keys a decryption callback reveals (scores,
+// equipment ids, fields, labels, clusters) stay unknown when that callback
+// fails, and so do the calls that need them: those callbacks decode their
+// cleartexts as strings, which the uint handles FHEVM decrypts never encode.
+
+// The addresses `ZamaConfig.getSepoliaConfig()` compiled into their bytecode
+const SEPOLIA_ACL = "0x687820221192C5B662b25367F70076A37bc79b6c";
+const SEPOLIA_COPROCESSOR = "0x848B0066793BcC60346Da1F49049357399B8D595";
+
+/**
+ * Deploys a binding's bytecode pointed at the mock's ACL and coprocessor, as the
+ * plugin does for the contracts compiled here by rewriting `ZamaConfig.sol`.
+ */
+async function deployForMock(hre: HardhatRuntimeEnvironment, factory: ContractFactory): Promise<BaseContract> {
+  const { ACLAddress, CoprocessorAddress } = await hre.fhevm.getRelayerMetadata();
+  const rebind = (bytecode: string, from: string, to: string) =>
+    bytecode.replace(new RegExp(from.slice(2), "gi"), to.slice(2).toLowerCase());
+  const bytecode = rebind(rebind(factory.bytecode, SEPOLIA_ACL, ACLAddress), SEPOLIA_COPROCESSOR, CoprocessorAddress);
+  return new ContractFactory(factory.interface, bytecode, factory.runner).deploy();
+}
+
+/** Trivially encrypted handles that `target` may compute on and decrypt. */
+async function grantHandles(
+  hre: HardhatRuntimeEnvironment,
+  operands: FHEOperationBenchmark,
+  target: string,
+  values: number[],
+  fheType: number = FHE_TYPES.euint32,
+): Promise<string[]> {
+  const { ACLAddress } = await hre.fhevm.getRelayerMetadata();
+  const acl = IACL__factory.connect(ACLAddress, operands.runner);
+  const handles: string[] = [];
+  for (const value of values) {
+    // The operand contract allows its caller, who passes the permission on
+    const handle = await operands.createOperand.staticCall(value, fheType);
+    await (await operands.createOperand(value, fheType)).wait();
+    await (await acl.allow(handle, target)).wait();
+    handles.push(handle);
+  }
+  return handles;
+}
+
+/** Calls `fn` with a key `callback` revealed, or notes that the key never came. */
+async function measureRevealed(
+  profile: Profiled,
+  fn: string,
+  callback: string,
+  key: string,
+  send: (key: string) => Promise<ContractTransactionResponse>,
+) {
+  if (key === "") {
+    profile.notes.set(fn, `needs a key revealed by ${callback}, which never succeeded`);
+    return;
+  }
+  await measure(profile, fn, () => send(key));
+}
+
+async function profileFedCluster(
+  hre: HardhatRuntimeEnvironment,
+  owner: Signer,
+  operands: FHEOperationBenchmark,
+): Promise<Profiled> {
+  const { profile } = await deployProfiled("FedClusterFHE", deployForMock(hre, new FedClusterFHE__factory(owner)));
+  const contract = FedClusterFHE__factory.connect(profile.address, owner);
+  const relayer = await startRelayer(hre);
+  const handles = await grantHandles(hre, operands, profile.address, [7, 1, 3]);
+  await measure(profile, "submitEncryptedDataPoint", () =>
+    contract.submitEncryptedDataPoint(handles[0], handles[1], handles[2]),
+  );
+  const dataPointId = await contract.dataPointCount();
+  await measure(profile, "requestFederatedClustering", () => contract.requestFederatedClustering(dataPointId));
+  await relayCallbacks(profile, relayer, ["performClustering"]);
+  const { clusterId } = await contract.getDecryptedDataPoint(dataPointId);
+  await measureRevealed(profile, "requestClusterStatsDecryption", "performClustering", clusterId, (key) =>
+    contract.requestClusterStatsDecryption(key),
+  );
+  await relayCallbacks(profile, relayer, ["decryptClusterStats"]);
+  return profile;
+}
+
+async function profileCuratedLists(
+  hre: HardhatRuntimeEnvironment,
+  owner: Signer,
+  operands: FHEOperationBenchmark,
+): Promise<Profiled> {
+  const { profile } = await deployProfiled("CuratedListsFHE", deployForMock(hre, new CuratedListsFHE__factory(owner)));
+  const contract = CuratedListsFHE__factory.connect(profile.address, owner);
+  const relayer = await startRelayer(hre);
+  const handles = await grantHandles(hre, operands, profile.address, [1, 2, 1]);
+  await measure(profile, "setTreasury", async () => contract.setTreasury(await owner.getAddress()));
+  await measure(profile, "createEncryptedList", () => contract.createEncryptedList(handles[0], handles[1]));
+  const listId = await contract.listCount();
+  // The list's tally is never allowed to the contract itself, so voting on it and decrypting it revert
+  await measure(profile, "stakeAndVote", () => contract.stakeAndVote(listId, handles[2], { value: 1000 }));
+  await measure(profile, "requestTallyDecryption", () => contract.requestTallyDecryption(listId));
+  await relayCallbacks(profile, relayer, ["onTallyDecrypted"]);
+  if ((await contract.stakes(await owner.getAddress(), listId)) > 0n) {
+    await measure(profile, "withdrawStake", () => contract.withdrawStake(listId));
+  } else {
+    profile.notes.set("withdrawStake", "needs a stake, which stakeAndVote never placed");
+  }
+  if ((await contract.rewards(await owner.getAddress())) > 0n) {
+    await measure(profile, "claimRewards", () => contract.claimRewards());
+  } else {
+    profile.notes.set("claimRewards", "needs a reward, which onTallyDecrypted never paid");
+  }
+  return profile;
+}
+
+async function profileVeriIdWallet(
+  hre: HardhatRuntimeEnvironment,
+  owner: Signer,
+  operands: FHEOperationBenchmark,
+): Promise<Profiled> {
+  const { profile } = await deployProfiled("VeriIdWalletFHE", deployForMock(hre, new VeriIdWalletFHE__factory(owner)));
+  const contract = VeriIdWalletFHE__factory.connect(profile.address, owner);
+  const relayer = await startRelayer(hre);
+  const [value, threshold] = await grantHandles(hre, operands, profile.address, [30, 18]);
+  const [condition] = await grantHandles(hre, operands, profile.address, [1], FHE_TYPES.ebool);
+  const credType = hre.ethers.id("age");
+  const expiresAt = (await hre.ethers.provider.getBlock("latest"))!.timestamp + DAY;
+  await measure(profile, "registerCredentialType", () => contract.registerCredentialType(credType));
+  await measure(profile, "addEncryptedCredential", () => contract.addEncryptedCredential(credType, value, expiresAt));
+  await measure(profile, "generateProof", () =>
+    contract.generateProof(hre.ethers.id("proof"), credType, threshold, condition),
+  );
+  await relayCallbacks(profile, relayer, ["handleProofVerification"]);
+  await measure(profile, "revokeCredential", async () => contract.revokeCredential(await contract.credCount()));
+  await measure(profile, "transferOwnership", async () => contract.transferOwnership(await owner.getAddress()));
+  return profile;
+}
+
+async function profileCsrFeedback(
+  hre: HardhatRuntimeEnvironment,
+  owner: Signer,
+  operands: FHEOperationBenchmark,
+): Promise<Profiled> {
+  const { profile } = await deployProfiled("CsrFeedbackFHE", deployForMock(hre, new CsrFeedbackFHE__factory(owner)));
+  const contract = CsrFeedbackFHE__factory.connect(profile.address, owner);
+  const relayer = await startRelayer(hre);
+  const handles = await grantHandles(hre, operands, profile.address, [4, 42]);
+  await measure(profile, "submitEncryptedFeedback", () => contract.submitEncryptedFeedback(handles[0], handles[1]));
+  const feedbackId = await contract.feedbackCount();
+  await measure(profile, "requestFeedbackDecryption", () => contract.requestFeedbackDecryption(feedbackId));
+  await relayCallbacks(profile, relayer, ["decryptFeedback"]);
+  const { score } = await contract.getDecryptedFeedback(feedbackId);
+  await measureRevealed(profile, "requestScoreCountDecryption", "decryptFeedback", score, (key) =>
+    contract.requestScoreCountDecryption(key),
+  );
+  await relayCallbacks(profile, relayer, ["decryptScoreCount"]);
+  return profile;
+}
+
+async function profilePowerMaintenance(
+  hre: HardhatRuntimeEnvironment,
+  owner: Signer,
+  operands: FHEOperationBenchmark,
+): Promise<Profiled> {
+  const { profile } = await deployProfiled(
+    "FHEPowerMaintenance",
+    deployForMock(hre, new FHEPowerMaintenance__factory(owner)),
+  );
+  const contract = FHEPowerMaintenance__factory.connect(profile.address, owner);
+  const relayer = await startRelayer(hre);
+  const handles = await grantHandles(hre, operands, profile.address, [70, 3]);
+  await measure(profile, "submitEncryptedSensorData", () => contract.submitEncryptedSensorData(handles[0], handles[1]));
+  const dataId = await contract.dataCount();
+  await measure(profile, "requestPrediction", () => contract.requestPrediction(dataId));
+  await relayCallbacks(profile, relayer, ["processPrediction"]);
+  const { equipmentId } = await contract.getPrediction(dataId);
+  await measureRevealed(profile, "requestEquipmentCountDecryption", "processPrediction", equipmentId, (key) =>
+    contract.requestEquipmentCountDecryption(key),
+  );
+  await relayCallbacks(profile, relayer, ["decryptEquipmentCount"]);
+  return profile;
+}
+
+async function profileSecureFederatedDatabase(
+  hre: HardhatRuntimeEnvironment,
+  owner: Signer,
+  operands: FHEOperationBenchmark,
+): Promise<Profiled> {
+  const { profile } = await deployProfiled(
+    "SecureFederatedDatabase",
+    deployForMock(hre, new SecureFederatedDatabase__factory(owner)),
+  );
+  const contract = SecureFederatedDatabase__factory.connect(profile.address, owner);
+  const relayer = await startRelayer(hre);
+  const handles = await grantHandles(hre, operands, profile.address, [1, 2, 3]);
+  await measure(profile, "addEncryptedRecord", () => contract.addEncryptedRecord(handles[0], handles[1], handles[2]));
+  const recordId = await contract.recordCounter();
+  await measure(profile, "requestRecordDecryption", () => contract.requestRecordDecryption(recordId));
+  await relayCallbacks(profile, relayer, ["handleDecryption"]);
+  const { field1 } = await contract.viewDecryptedRecord(recordId);
+  await measureRevealed(profile, "requestFieldCountDecryption", "handleDecryption", field1, (key) =>
+    contract.requestFieldCountDecryption(key),
+  );
+  await relayCallbacks(profile, relayer, ["handleFieldCountDecryption"]);
+  return profile;
+}
+
+async function profileVeterinaryRecords(
+  hre: HardhatRuntimeEnvironment,
+  owner: Signer,
+  operands: FHEOperationBenchmark,
+): Promise<Profiled> {
+  const { profile } = await deployProfiled(
+    "VeterinaryFHERecordNetwork",
+    deployForMock(hre, new VeterinaryFHERecordNetwork__factory(owner)),
+  );
+  const contract = VeterinaryFHERecordNetwork__factory.connect(profile.address, owner);
+  const relayer = await startRelayer(hre);
+  const handles = await grantHandles(hre, operands, profile.address, [1, 2, 3, 4]);
+  await measure(profile, "submitEncryptedMedicalRecord", () =>
+    contract.submitEncryptedMedicalRecord(handles[0], handles[1], handles[2], handles[3]),
+  );
+  const recordId = await contract.recordCounter();
+  await measure(profile, "requestRecordDecryption", () => contract.requestRecordDecryption(recordId));
+  await relayCallbacks(profile, relayer, ["handleDecryption"]);
+  const { species } = await contract.getRevealedRecord(recordId);
+  await measureRevealed(profile, "requestAggregateDecryption", "handleDecryption", species, (key) =>
+    contract.requestAggregateDecryption(key),
+  );
+  await relayCallbacks(profile, relayer, ["handleAggregateDecryption"]);
+  return profile;
+}
+
+function unmeasuredReason(profile: Profiled, fn: string): string {
+  const note = profile.notes.get(fn);
+  if (note) return note;
+  const samples = profile.samples.get(fn);
+  if (!samples) return "not called by the scenario";
+  return `${samples.reverts} call${samples.reverts === 1 ? "" : "s"} reverted: ${samples.revertReason ?? "unknown reason"}`;
+}
+
+function summarizeProfile(profile: Profiled): ContractGasProfile {
+  const names = new Set<string>();
+  profile.contract.interface.forEachFunction((fragment) => {
+    if (!fragment.constant) names.add(fragment.name);
+  });
+
+  const functions: FunctionGas[] = [];
+  const unmeasured: UnmeasuredFunction[] = [];
+  for (const fn of [...names].sort((a, b) => a.localeCompare(b))) {
+    const samples = profile.samples.get(fn);
+    if (!samples || samples.gas.length === 0) {
+      unmeasured.push({ function: fn, reason: unmeasuredReason(profile, fn) });
+      continue;
+    }
+    const values = samples.gas.map(Number);
+    const entry: FunctionGas = {
+      function: fn,
+      calls: values.length,
+      min: Math.min(...values),
+      mean: Math.round(values.reduce((sum, value) => sum + value, 0) / values.length),
+      max: Math.max(...values),
+      reverts: samples.reverts,
+    };
+    if (samples.revertReason !== undefined) entry.revertReason = samples.revertReason;
+    functions.push(entry);
+  }
+
+  return {
+    contract: profile.name,
+    address: profile.address,
+    deploymentGas: Number(profile.deploymentGas),
+    functions,
+    unmeasured,
+  };
+}
+
+/** Deploys every profiled contract and measures each of its public state-changing functions. */
+export async function runGasProfile(hre: HardhatRuntimeEnvironment): Promise<GasProfile> {
+  if (!hre.fhevm.isMock) {
+    throw new Error(
+      `Gas profiling requires the FHEVM mock environment, but network "${hre.network.name}" is not mocked`,
+    );
+  }
+  const [owner] = await hre.ethers.getSigners();
+  const profiles = [await profileBenchmarkTool(hre)];
+  const operands = await deployOperationBenchmark(hre);
+  for (const scenario of [
+    profileFedCluster,
+    profileCuratedLists,
+    profileVeriIdWallet,
+    profileCsrFeedback,
+    profilePowerMaintenance,
+    profileSecureFederatedDatabase,
+    profileVeterinaryRecords,
+  ]) {
+    profiles.push(await scenario(hre, owner, operands));
+  }
+
+  return {
+    network: hre.network.name,
+    generatedAt: new Date().toISOString(),
+    contracts: profiles.map(summarizeProfile),
+  };
+}
+
+/**
+ * Renders one line per measured function (calls, mean/min/max gas, and reverts
+ * with the last reason), then the unmeasured ones with the reason.
+ */
+export function formatGasProfile(profile: GasProfile): string {
+  const lines: string[] = [];
+  for (const contract of profile.contracts) {
+    lines.push(`${contract.contract} (deployment ${contract.deploymentGas} gas)`);
+    for (const fn of contract.functions) {
+      const calls = `${fn.calls} call${fn.calls === 1 ? "" : "s"}`;
+      const reverts = fn.reverts > 0 ? `, ${fn.reverts} reverted: ${fn.revertReason ?? "unknown reason"}` : "";
+      lines.push(`  ${fn.function.padEnd(34)}${fn.mean} gas (${fn.min}-${fn.max}, ${calls})${reverts}`);
+    }
+    for (const fn of contract.unmeasured) {
+      lines.push(`  ${fn.function.padEnd(34)}unmeasured, ${fn.reason}`);
+    }
+  }
+  return lines.join("\n");
+}
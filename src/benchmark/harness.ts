@@ -0,0 +1,167 @@
+import { performance } from "perf_hooks";
+import type { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { FHEOperationBenchmark } from "../../types";
+import { FHE_TYPES, encodeOperation, hasScalarOperand, operandValues } from "./operations";
+import type { FheTypeName, OperandMode, OperandSet, OperandValues } from "./operations";
+import { summarize } from "./stats";
+import { createRecordId } from "./types";
+import type { BenchmarkRecord } from "./types";
+
+/** Zama's FHEVM coprocessor runs TFHE; every record produced here is tagged with it. */
+export const SCHEME = "TFHE";
+
+const DEFAULT_VALUES: OperandValues = { lhs: 100, rhs: 7 };
+
+export interface OperationBenchmarkOptions {
+  operation: string;
+  fheType: FheTypeName;
+  operandMode?: OperandMode;
+  iterations: number;
+  /** Unmeasured executions before timing starts. */
+  warmup?: number;
+  values?: OperandValues;
+}
+
+// Operands are created once per contract and type; re-encrypting them per cell
+// would only add transactions to the run.
+const operandCache = new WeakMap<FHEOperationBenchmark, Map<string, Promise<OperandSet>>>();
+
+export async function deployOperationBenchmark(hre: HardhatRuntimeEnvironment): Promise<FHEOperationBenchmark> {
+  if (!hre.fhevm.isMock) {
+    throw new Error(`FHE benchmarks require the FHEVM mock environment, but network "${hre.network.name}" is not mocked`);
+  }
+  const factory = await hre.ethers.getContractFactory("FHEOperationBenchmark");
+  const bench = await factory.deploy();
+  await bench.waitForDeployment();
+  await hre.fhevm.assertCoprocessorInitialized(bench, "FHEOperationBenchmark");
+  return bench;
+}
+
+async function createOperand(bench: FHEOperationBenchmark, value: number, fheType: number): Promise<string> {
+  const handle = await bench.createOperand.staticCall(value, fheType);
+  await (await bench.createOperand(value, fheType)).wait();
+  return handle;
+}
+
+function prepareOperands(bench: FHEOperationBenchmark, fheType: FheTypeName, values: OperandValues) {
+  let sets = operandCache.get(bench);
+  if (!sets) {
+    sets = new Map();
+    operandCache.set(bench, sets);
+  }
+  const key = `${fheType}:${values.lhs}:${values.rhs}`;
+  let operands = sets.get(key);
+  if (!operands) {
+    operands = (async () => ({
+      lhs: await createOperand(bench, values.lhs, FHE_TYPES[fheType]),
+      rhs: await createOperand(bench, values.rhs, FHE_TYPES[fheType]),
+      control: await createOperand(bench, 1, FHE_TYPES.ebool),
+    }))();
+    sets.set(key, operands);
+  }
+  return operands;
+}
+
+async function encodeFor(
+  bench: FHEOperationBenchmark,
+  operation: string,
+  fheType: FheTypeName,
+  operandMode: OperandMode,
+  values: OperandValues,
+) {
+  const typedValues = operandValues(fheType, values);
+  const operands = await prepareOperands(bench, fheType, typedValues);
+  return encodeOperation(operation, fheType, operandMode, operands, typedValues);
+}
+
+/**
+ * Simulates the executor call; the executor reverts for combinations it does
+ * not implement (e.g. arithmetic on ebool, or division by a ciphertext).
+ */
+export async function supportsOperation(
+  bench: FHEOperationBenchmark,
+  operation: string,
+  fheType: FheTypeName,
+  operandMode: OperandMode = "ciphertext",
+  values: OperandValues = DEFAULT_VALUES,
+): Promise<boolean> {
+  if (operandMode === "scalar" && !hasScalarOperand(operation)) {
+    return false;
+  }
+  const call = await encodeFor(bench, operation, fheType, operandMode, values);
+  try {
+    await bench.execute.staticCall(call);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseExecution(bench: FHEOperationBenchmark, receipt: ethers.TransactionReceipt) {
+  for (const log of receipt.logs) {
+    const parsed = bench.interface.parseLog(log);
+    if (parsed?.name === "OperationExecuted") {
+      return { result: parsed.args.result as string, gasUsed: parsed.args.gasUsed as bigint };
+    }
+  }
+  throw new Error(`OperationExecuted event missing from transaction ${receipt.hash}`);
+}
+
+/**
+ * Runs one IFHEVMExecutor operation `warmup` times unmeasured, then
+ * `iterations` times, summarising wall-clock time (transaction sent to
+ * receipt) and averaging the gas spent inside the executor.
+ */
+export async function runOperationBenchmark(
+  hre: HardhatRuntimeEnvironment,
+  bench: FHEOperationBenchmark,
+  options: OperationBenchmarkOptions,
+): Promise<BenchmarkRecord> {
+  const { operation, fheType, operandMode = "ciphertext", iterations, warmup = 0, values = DEFAULT_VALUES } = options;
+  if (iterations < 1) {
+    throw new Error(`iterations must be at least 1, got ${iterations}`);
+  }
+  if (warmup < 0) {
+    throw new Error(`warmup must not be negative, got ${warmup}`);
+  }
+  const [signer] = await hre.ethers.getSigners();
+  const call = await encodeFor(bench, operation, fheType, operandMode, values);
+
+  for (let i = 0; i < warmup; i++) {
+    await (await bench.execute(call)).wait();
+  }
+
+  const times: number[] = [];
+  let totalGas = 0n;
+  let result = "";
+  for (let i = 0; i < iterations; i++) {
+    const start = performance.now();
+    const receipt = await (await bench.execute(call)).wait();
+    times.push(performance.now() - start);
+
+    const execution = parseExecution(bench, receipt!);
+    totalGas += execution.gasUsed;
+    result = execution.result;
+  }
+
+  const timing = summarize(times);
+  return {
+    id: createRecordId(),
+    scheme: SCHEME,
+    encryptedData: result,
+    timestamp: Math.floor(Date.now() / 1000),
+    owner: signer.address,
+    operation,
+    fheType,
+    operandMode,
+    executionTime: timing.mean,
+    executionStats: timing,
+    warmup,
+    iterations,
+    samples: times,
+    memoryUsage: process.memoryUsage().rss / (1024 * 1024),
+    gasUsed: Number(totalGas / BigInt(iterations)),
+  };
+}
@@ -0,0 +1,115 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { FHEOperationBenchmark } from "../../types";
+import { runOperationBenchmark, supportsOperation } from "./harness";
+import { EXECUTOR_OPERATIONS, FHE_TYPE_NAMES, OPERAND_MODES, hasScalarOperand } from "./operations";
+import type { FheTypeName, OperandMode } from "./operations";
+import type { BenchmarkRecord } from "./types";
+
+export interface MatrixOptions {
+  operations?: string[];
+  fheTypes?: FheTypeName[];
+  operandModes?: OperandMode[];
+  iterations: number;
+  warmup?: number;
+}
+
+/** One operation × type × operand mode cell. `record` is absent when the executor rejects the combination. */
+export interface MatrixCell {
+  operation: string;
+  fheType: FheTypeName;
+  operandMode: OperandMode;
+  supported: boolean;
+  record?: BenchmarkRecord;
+}
+
+/** Ciphertext and scalar runs of the same operation and type, for side-by-side reporting. */
+export interface OperandModeComparison {
+  operation: string;
+  fheType: FheTypeName;
+  ciphertext?: BenchmarkRecord;
+  scalar?: BenchmarkRecord;
+}
+
+/**
+ * Benchmarks every requested operation against every requested encrypted type
+ * and operand mode, defaulting to all IFHEVMExecutor operations, all supported
+ * widths and both operand modes. Operations without a `scalarByte` only get a
+ * ciphertext cell.
+ */
+export async function runOperationMatrix(
+  hre: HardhatRuntimeEnvironment,
+  bench: FHEOperationBenchmark,
+  options: MatrixOptions,
+  onCell?: (cell: MatrixCell) => void,
+): Promise<MatrixCell[]> {
+  const { operations = EXECUTOR_OPERATIONS, fheTypes = FHE_TYPE_NAMES, operandModes = OPERAND_MODES, iterations, warmup } = options;
+
+  const cells: MatrixCell[] = [];
+  for (const operation of operations) {
+    const modes = operandModes.filter((mode) => mode === "ciphertext" || hasScalarOperand(operation));
+    for (const fheType of fheTypes) {
+      for (const operandMode of modes) {
+        const supported = await supportsOperation(bench, operation, fheType, operandMode);
+        const cell: MatrixCell = { operation, fheType, operandMode, supported };
+        if (supported) {
+          cell.record = await runOperationBenchmark(hre, bench, { operation, fheType, operandMode, iterations, warmup });
+        }
+        cells.push(cell);
+        onCell?.(cell);
+      }
+    }
+  }
+  return cells;
+}
+
+/** Pairs up the ciphertext and scalar cells of operations that were run both ways. */
+export function compareOperandModes(cells: MatrixCell[]): OperandModeComparison[] {
+  const comparisons = new Map<string, OperandModeComparison>();
+  for (const cell of cells) {
+    if (!hasScalarOperand(cell.operation)) continue;
+    const key = `${cell.operation}:${cell.fheType}`;
+    const comparison = comparisons.get(key) ?? { operation: cell.operation, fheType: cell.fheType };
+    comparison[cell.operandMode] = cell.record;
+    comparisons.set(key, comparison);
+  }
+  return [...comparisons.values()];
+}
+
+const WIDTH = 20;
+
+function formatRecord(record: BenchmarkRecord | undefined): string {
+  return (record ? `${record.executionTime.toFixed(1)}ms/${record.gasUsed}` : "-").padEnd(WIDTH);
+}
+
+/** Renders cells as a fixed-width latency/gas table, one row per operation and operand mode. */
+export function formatMatrix(cells: MatrixCell[]): string {
+  const fheTypes = [...new Set(cells.map((cell) => cell.fheType))];
+  const rows = [...new Set(cells.map((cell) => `${cell.operation}:${cell.operandMode}`))];
+  const labelWidth = Math.max(WIDTH, ...rows.map((row) => row.length + 4));
+
+  const lines = [["operation".padEnd(labelWidth), ...fheTypes.map((column) => column.padEnd(WIDTH))].join("")];
+  for (const row of rows) {
+    const [operation, operandMode] = row.split(":");
+    const columns = fheTypes.map((fheType) =>
+      formatRecord(
+        cells.find((c) => c.operation === operation && c.operandMode === operandMode && c.fheType === fheType)?.record,
+      ),
+    );
+    lines.push([`${operation} (${operandMode})`.padEnd(labelWidth), ...columns].join(""));
+  }
+  return lines.join("\n");
+}
+
+/** Renders ciphertext and scalar results next to each other with the scalar speedup. */
+export function formatModeComparison(comparisons: OperandModeComparison[]): string {
+  const lines = [["operation", "type", "ciphertext", "scalar", "speedup"].map((column) => column.padEnd(WIDTH)).join("")];
+  for (const { operation, fheType, ciphertext, scalar } of comparisons) {
+    const speedup =
+      ciphertext && scalar ? `${(ciphertext.executionTime / scalar.executionTime).toFixed(2)}x` : "-";
+    lines.push(
+      [operation.padEnd(WIDTH), fheType.padEnd(WIDTH), formatRecord(ciphertext), formatRecord(scalar), speedup].join(""),
+    );
+  }
+  return lines.join("\n");
+}
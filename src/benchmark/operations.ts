@@ -0,0 +1,144 @@
+import { ethers } from "ethers";
+
+import { IFHEVMExecutor__factory } from "../../types";
+
+/** `FheType` ordinals from @fhevm/solidity/lib/FheType.sol for the encrypted types we benchmark. */
+export const FHE_TYPES = {
+  ebool: 0,
+  euint8: 2,
+  euint16: 3,
+  euint32: 4,
+  euint64: 5,
+  euint128: 6,
+} as const;
+export type FheTypeName = keyof typeof FHE_TYPES;
+export const FHE_TYPE_NAMES = Object.keys(FHE_TYPES) as FheTypeName[];
+
+export const executorInterface: ethers.Interface = IFHEVMExecutor__factory.createInterface();
+
+/**
+ * Every state-changing IFHEVMExecutor function except `verifyCiphertext`,
+ * which needs an input proof rather than operands the benchmark can create itself.
+ */
+export const EXECUTOR_OPERATIONS: string[] = executorInterface.fragments
+  .filter((fragment): fragment is ethers.FunctionFragment => ethers.FunctionFragment.isFragment(fragment))
+  .filter((fragment) => fragment.stateMutability !== "view" && fragment.name !== "verifyCiphertext")
+  .map((fragment) => fragment.name);
+
+/**
+ * How the right-hand operand of a binary operation is passed: as a ciphertext
+ * handle, or as a plaintext flagged through the executor's `scalarByte`.
+ */
+export const OPERAND_MODES = ["ciphertext", "scalar"] as const;
+export type OperandMode = (typeof OPERAND_MODES)[number];
+
+// Power of two, as required by fheRandBounded, small enough for every integer width.
+const RAND_UPPER_BOUND = 16;
+
+/** Ciphertext handles prepared for one encrypted type. */
+export interface OperandSet {
+  lhs: string;
+  rhs: string;
+  control: string;
+}
+
+export interface OperandValues {
+  lhs: number;
+  rhs: number;
+}
+
+export function isExecutorOperation(name: string): boolean {
+  return EXECUTOR_OPERATIONS.includes(name);
+}
+
+export function isFheTypeName(name: string): name is FheTypeName {
+  return Object.prototype.hasOwnProperty.call(FHE_TYPES, name);
+}
+
+export function isOperandMode(name: string): name is OperandMode {
+  return (OPERAND_MODES as readonly string[]).includes(name);
+}
+
+/** Whether the operation takes a `scalarByte`, i.e. can run in both operand modes. */
+export function hasScalarOperand(operation: string): boolean {
+  return executorInterface.getFunction(operation)?.inputs.some((input) => input.name === "scalarByte") ?? false;
+}
+
+/**
+ * Derives a reproducible operand pair from `seed` (mulberry32). Values stay in
+ * 1..255 so they fit every width and never divide by zero.
+ */
+export function seededOperandValues(seed: number): OperandValues {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return { lhs: 1 + Math.floor(next() * 255), rhs: 1 + Math.floor(next() * 255) };
+}
+
+/** Booleans only hold 0 and 1, so operand values are reduced to a truthiness bit. */
+export function operandValues(fheType: FheTypeName, values: OperandValues): OperandValues {
+  if (fheType === "ebool") {
+    return { lhs: values.lhs === 0 ? 0 : 1, rhs: values.rhs === 0 ? 0 : 1 };
+  }
+  return values;
+}
+
+function castTarget(fheType: FheTypeName): number {
+  return fheType === "euint32" ? FHE_TYPES.euint64 : FHE_TYPES.euint32;
+}
+
+/**
+ * Encodes the executor call for `operation` on operands of `fheType`. Arguments
+ * are derived from the parameter names in the IFHEVMExecutor ABI, so new
+ * operations following the same conventions are picked up automatically.
+ */
+export function encodeOperation(
+  operation: string,
+  fheType: FheTypeName,
+  operandMode: OperandMode,
+  operands: OperandSet,
+  values: OperandValues,
+): string {
+  const fragment = executorInterface.getFunction(operation);
+  if (!fragment) {
+    throw new Error(`IFHEVMExecutor has no operation "${operation}"`);
+  }
+  if (operandMode === "scalar" && !hasScalarOperand(operation)) {
+    throw new Error(`${operation} has no scalar operand mode`);
+  }
+  const scalar = operandMode === "scalar";
+
+  const args = fragment.inputs.map((input) => {
+    switch (input.name) {
+      case "lhs":
+        return operands.lhs;
+      case "rhs":
+        return scalar ? ethers.toBeHex(values.rhs, 32) : operands.rhs;
+      case "scalarByte":
+        return scalar ? "0x01" : "0x00";
+      case "ct":
+        // trivialEncrypt takes a plaintext, the unary operations and cast take a handle
+        return input.type === "uint256" ? values.lhs : operands.lhs;
+      case "control":
+        return operands.control;
+      case "ifTrue":
+        return operands.lhs;
+      case "ifFalse":
+        return operands.rhs;
+      case "toType":
+        return operation === "cast" ? castTarget(fheType) : FHE_TYPES[fheType];
+      case "randType":
+        return FHE_TYPES[fheType];
+      case "upperBound":
+        return RAND_UPPER_BOUND;
+      default:
+        throw new Error(`Cannot build argument "${input.name}" of ${operation}`);
+    }
+  });
+  return executorInterface.encodeFunctionData(fragment, args);
+}
@@ -0,0 +1,226 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { FhevmTypeEuint } from "@fhevm/hardhat-plugin";
+import { AbiCoder, Interface, concat, isCallException, solidityPacked } from "ethers";
+import type { Fragment, Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { RelayedDecryption } from "./types";
+
+type DecryptionRequest = ReturnType<HardhatRuntimeEnvironment["fhevm"]["parseDecryptionRequestEvents"]>[number];
+
+export interface OracleRelayerOptions {
+  /** First block scanned for decryption requests; defaults to the genesis block. */
+  fromBlock?: number;
+  /** Account that sends the callbacks; defaults to the first signer. */
+  signer?: Signer;
+}
+
+export interface OracleRelayer {
+  /** First block the next `relay` call will scan. */
+  readonly nextBlock: number;
+  /** Answers every request emitted since the previous call, each independently of the others. */
+  relay(): Promise<RelayedDecryption[]>;
+}
+
+const EXTRA_DATA_V0 = solidityPacked(["uint8"], [0]);
+
+const SOLIDITY_TYPES: Partial<Record<FhevmType, string>> = {
+  [FhevmType.ebool]: "bool",
+  [FhevmType.euint8]: "uint8",
+  [FhevmType.euint16]: "uint16",
+  [FhevmType.euint32]: "uint32",
+  [FhevmType.euint64]: "uint64",
+  [FhevmType.euint128]: "uint128",
+  [FhevmType.eaddress]: "address",
+  [FhevmType.euint256]: "uint256",
+};
+
+/** Handles are laid out as 21 hash bytes | index | 8 chain id bytes | type | version. */
+function handleType(handle: string): FhevmType {
+  return parseInt(handle.slice(62, 64), 16);
+}
+
+function solidityType(handle: string): string {
+  const type = SOLIDITY_TYPES[handleType(handle)];
+  if (!type) {
+    throw new Error(`Unsupported encrypted type ${handleType(handle)} in handle ${handle}`);
+  }
+  return type;
+}
+
+async function decryptHandle(hre: HardhatRuntimeEnvironment, handle: string): Promise<bigint | boolean | string> {
+  switch (handleType(handle)) {
+    case FhevmType.ebool:
+      return hre.fhevm.debugger.decryptEbool(handle);
+    case FhevmType.eaddress:
+      return hre.fhevm.debugger.decryptEaddress(handle);
+    default:
+      return hre.fhevm.debugger.decryptEuint(handleType(handle) as FhevmTypeEuint, handle);
+  }
+}
+
+/** Functions and custom errors of every compiled contract, to name callbacks and decode their reverts. */
+async function compiledInterface(hre: HardhatRuntimeEnvironment): Promise<Interface> {
+  const fragments = new Map<string, Fragment>();
+  for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+    const { abi } = await hre.artifacts.readArtifact(name);
+    for (const fragment of new Interface(abi).fragments) {
+      if (fragment.type === "function" || fragment.type === "error") {
+        fragments.set(fragment.format("sighash"), fragment);
+      }
+    }
+  }
+  return new Interface([...fragments.values()]);
+}
+
+const RETURN_DATA = /return data: (0x[0-9a-fA-F]*)/;
+
+/**
+ * Revert data carried by an error: ethers sets `data` on call exceptions, while
+ * Hardhat reports custom errors it cannot name only in its message, at any depth.
+ */
+function returnData(error: unknown, depth = 0): string | undefined {
+  if (depth > 4 || typeof error !== "object" || error === null) return undefined;
+  const { data, message, error: nested, info, cause } = error as Record<string, unknown>;
+  if (typeof data === "string" && /^0x[0-9a-fA-F]{8}/.test(data)) return data;
+  const match = typeof message === "string" ? message.match(RETURN_DATA) : null;
+  if (match) return match[1];
+  return (
+    returnData(data, depth + 1) ??
+    returnData(nested, depth + 1) ??
+    returnData((info as { error?: unknown } | undefined)?.error, depth + 1) ??
+    returnData(cause, depth + 1)
+  );
+}
+
+function decodeError(compiled: Interface, data: string | undefined): string | undefined {
+  if (!data || data.length < 10) return undefined;
+  try {
+    const decoded = compiled.parseError(data);
+    if (!decoded) return undefined;
+    // Builtin reverts: `require` messages and panics read better than their error names
+    if (decoded.name === "Error") return String(decoded.args[0]);
+    if (decoded.name === "Panic") return `panic 0x${BigInt(decoded.args[0]).toString(16)}`;
+    return decoded.name;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Names a revert by decoding its data with the compiled errors, falling back to the error's message. */
+export function revertReason(compiled: Interface, error: unknown): string {
+  const decoded = decodeError(compiled, returnData(error));
+  if (decoded) return decoded;
+  if (isCallException(error) && error.reason) return error.reason;
+  const message = error instanceof Error ? error.message : String(error);
+  // Hardhat's "reverted with custom error 'Name()'", or the plugin's "ACL permission error 'Name()'"
+  const match = message.match(/(?:reason string|error) '([^'(]*)/);
+  if (match) return match[1];
+  if (message.includes("without a reason")) return "reverted without a reason";
+  return message.split("\n")[0];
+}
+
+/**
+ * Builds the callback the Zama oracle would send: the cleartexts abi-encoded in
+ * handle order and a proof of `numSigners | signatures | extraData` signed with
+ * the mock KMS keys, so `FHE.checkSignatures` accepts it.
+ */
+async function callbackCalldata(hre: HardhatRuntimeEnvironment, request: DecryptionRequest) {
+  const handles = [...request.handlesBytes32Hex];
+  const cleartexts: (bigint | boolean | string)[] = [];
+  for (const handle of handles) {
+    cleartexts.push(await decryptHandle(hre, handle));
+  }
+  // Declared as string[], but the mock relayer answers with `{ decryptedResult, signatures }`
+  const signed = (await hre.fhevm.debugger.createDecryptionSignatures(handles, cleartexts)) as unknown as
+    | string[]
+    | { signatures: string[] };
+  const signatures = Array.isArray(signed) ? signed : signed.signatures;
+  const proof = concat([solidityPacked(["uint8"], [signatures.length]), ...signatures, EXTRA_DATA_V0]);
+
+  const coder = AbiCoder.defaultAbiCoder();
+  const encodedCleartexts = coder.encode(handles.map(solidityType), cleartexts);
+  const data = concat([
+    request.callbackSelectorBytes4Hex,
+    coder.encode(["uint256", "bytes", "bytes"], [request.requestID, encodedCleartexts, proof]),
+  ]);
+  return { cleartexts, data };
+}
+
+async function answer(
+  hre: HardhatRuntimeEnvironment,
+  signer: Signer,
+  compiled: Interface,
+  request: DecryptionRequest,
+): Promise<RelayedDecryption> {
+  const relayed: RelayedDecryption = {
+    requestId: request.requestID,
+    contract: request.contractCallerAddress,
+    callback: compiled.getFunction(request.callbackSelectorBytes4Hex)?.name ?? request.callbackSelectorBytes4Hex,
+    handles: [...request.handlesBytes32Hex],
+    cleartexts: [],
+    status: "rejected",
+  };
+
+  try {
+    const { cleartexts, data } = await callbackCalldata(hre, request);
+    relayed.cleartexts = cleartexts;
+    const tx = { to: request.contractCallerAddress, data };
+    // Simulated first so a callback the contract refuses is reported rather than mined as a failed transaction
+    await signer.call(tx);
+    const receipt = await (await signer.sendTransaction(tx)).wait();
+    return { ...relayed, status: "fulfilled", transactionHash: receipt!.hash, gasUsed: Number(receipt!.gasUsed) };
+  } catch (error) {
+    return { ...relayed, reason: revertReason(compiled, error) };
+  }
+}
+
+/**
+ * Stands in for the Zama decryption oracle on a mock FHEVM network: reads the
+ * DecryptionOracle's request events, decrypts their handles with the mock keys
+ * and sends each requesting contract its callback. Unlike
+ * `fhevm.awaitDecryptionOracle`, a callback the contract rejects is reported and
+ * the remaining requests are still answered.
+ */
+export async function createOracleRelayer(
+  hre: HardhatRuntimeEnvironment,
+  options: OracleRelayerOptions = {},
+): Promise<OracleRelayer> {
+  if (!hre.fhevm.isMock) {
+    throw new Error(`The local oracle relayer needs the mock FHEVM; ${hre.network.name} has a real oracle`);
+  }
+  const { DecryptionOracleAddress } = await hre.fhevm.getRelayerMetadata();
+  const signer = options.signer ?? (await hre.ethers.getSigners())[0];
+  const compiled = await compiledInterface(hre);
+  let nextBlock = options.fromBlock ?? 0;
+
+  return {
+    get nextBlock() {
+      return nextBlock;
+    },
+    async relay() {
+      const toBlock = await hre.ethers.provider.getBlockNumber();
+      if (toBlock < nextBlock) return [];
+      const logs = await hre.ethers.provider.getLogs({
+        address: DecryptionOracleAddress,
+        fromBlock: nextBlock,
+        toBlock,
+      });
+      nextBlock = toBlock + 1;
+
+      const relayed: RelayedDecryption[] = [];
+      for (const request of hre.fhevm.parseDecryptionRequestEvents(logs)) {
+        relayed.push(await answer(hre, signer, compiled, request));
+      }
+      return relayed;
+    },
+  };
+}
+
+export function formatRelayedDecryption(relayed: RelayedDecryption): string {
+  const request = `request ${relayed.requestId} ${relayed.callback} on ${relayed.contract}`;
+  if (relayed.status === "fulfilled") {
+    return `fulfilled ${request} (${relayed.cleartexts.join(", ")}) gas ${relayed.gasUsed}`;
+  }
+  return `rejected  ${request}: ${relayed.reason}`;
+}
@@ -0,0 +1,121 @@
+/**
+ * Descriptive statistics for benchmark samples. Dependency-free so the
+ * dashboard can import it as well as the Node harness.
+ */
+
+export interface SampleSummary {
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  median: number;
+  p90: number;
+  p99: number;
+  /** Sample standard deviation (n - 1); 0 for a single sample. */
+  stddev: number;
+  /** 95% confidence interval of the mean (Student's t). */
+  ci95: { low: number; high: number };
+  /** Indices of the samples outside 1.5 × IQR of the quartiles. */
+  outliers: number[];
+}
+
+// Two-sided 95% Student's t critical values for 1..30 degrees of freedom.
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11,
+  2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+// Beyond 30 degrees of freedom, as [lowest df, value]: each df takes the value of the nearest tabulated df
+// below it, so the interval errs wide rather than narrow.
+const T_95_TAIL: [number, number][] = [
+  [1000, 1.962],
+  [120, 1.98],
+  [60, 2.0],
+  [40, 2.021],
+  [31, 2.042],
+];
+
+/** Two-sided 95% Student's t critical value for `df` degrees of freedom. */
+export function tCritical95(df: number): number {
+  if (df < 1) {
+    throw new Error(`no t critical value for ${df} degrees of freedom`);
+  }
+  if (df <= T_95.length) return T_95[df - 1];
+  return T_95_TAIL.find(([lowest]) => df >= lowest)![1];
+}
+
+const ascending = (a: number, b: number) => a - b;
+
+/** Linearly interpolated percentile (0–100) of an ascending-sorted, non-empty list. */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    throw new Error("percentile of an empty sample");
+  }
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/** Indices of samples below Q1 - 1.5 × IQR or above Q3 + 1.5 × IQR. */
+export function iqrOutliers(samples: number[]): number[] {
+  if (samples.length < 4) return [];
+  const sorted = [...samples].sort(ascending);
+  const q1 = percentile(sorted, 25);
+  const q3 = percentile(sorted, 75);
+  const fence = 1.5 * (q3 - q1);
+  return samples.flatMap((sample, index) => (sample < q1 - fence || sample > q3 + fence ? [index] : []));
+}
+
+export function summarize(samples: number[]): SampleSummary {
+  const count = samples.length;
+  if (count === 0) {
+    throw new Error("cannot summarize an empty sample");
+  }
+  const sorted = [...samples].sort(ascending);
+  const mean = samples.reduce((sum, sample) => sum + sample, 0) / count;
+  const variance = count > 1 ? samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / (count - 1) : 0;
+  const stddev = Math.sqrt(variance);
+  const margin = count > 1 ? tCritical95(count - 1) * (stddev / Math.sqrt(count)) : 0;
+
+  return {
+    count,
+    mean,
+    min: sorted[0],
+    max: sorted[count - 1],
+    median: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    stddev,
+    ci95: { low: mean - margin, high: mean + margin },
+    outliers: iqrOutliers(samples),
+  };
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/** Buckets samples into `binCount` equal-width bins spanning min..max. */
+export function histogram(samples: number[], binCount: number): HistogramBin[] {
+  if (samples.length === 0) return [];
+  const min = Math.min(...samples);
+  const max = Math.max(...samples);
+  const width = (max - min) / binCount || 1;
+  const bins = Array.from({ length: binCount }, (_, i) => ({ start: min + i * width, end: min + (i + 1) * width, count: 0 }));
+  for (const sample of samples) {
+    bins[Math.min(Math.floor((sample - min) / width), binCount - 1)].count++;
+  }
+  return bins;
+}
+
+/** One-line rendering, e.g. `12.41 ±0.83 ms (median 12.10, p90 13.52, p99 14.01, 1 outlier)`. */
+export function formatSummary(summary: SampleSummary, unit: string): string {
+  const margin = (summary.ci95.high - summary.ci95.low) / 2;
+  const outliers = summary.outliers.length === 1 ? "1 outlier" : `${summary.outliers.length} outliers`;
+  return (
+    `${summary.mean.toFixed(2)} ±${margin.toFixed(2)} ${unit} ` +
+    `(median ${summary.median.toFixed(2)}, p90 ${summary.p90.toFixed(2)}, p99 ${summary.p99.toFixed(2)}, ${outliers})`
+  );
+}
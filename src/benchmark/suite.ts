@@ -0,0 +1,167 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { FHEOperationBenchmark } from "../../types";
+import { runOperationBenchmark, supportsOperation } from "./harness";
+import { isExecutorOperation, isFheTypeName, isOperandMode, seededOperandValues } from "./operations";
+import type { FheTypeName, OperandMode } from "./operations";
+import type { BenchmarkRecord } from "./types";
+
+/**
+ * Declarative benchmark run, loaded from a JSON or YAML suite file:
+ *
+ *   name: arithmetic
+ *   operations: [fheAdd, fheMul]
+ *   types: [euint8, euint32]
+ *   operandModes: [ciphertext, scalar]
+ *   iterations: 10
+ *   warmup: 2
+ *   seeds: [1, 2, 3]
+ *
+ * Every operation × type × operand mode × seed combination becomes one record.
+ */
+export interface BenchmarkSuite {
+  name: string;
+  operations: string[];
+  types: FheTypeName[];
+  operandModes: OperandMode[];
+  iterations: number;
+  warmup: number;
+  /** Each seed derives one operand pair; without seeds the harness defaults are used. */
+  seeds: number[];
+}
+
+/** A combination the executor rejects; reported instead of aborting the suite. */
+export interface SkippedCase {
+  operation: string;
+  fheType: FheTypeName;
+  operandMode: OperandMode;
+}
+
+export interface SuiteResult {
+  suite: string;
+  records: BenchmarkRecord[];
+  skipped: SkippedCase[];
+}
+
+const DEFAULT_ITERATIONS = 5;
+const DEFAULT_WARMUP = 1;
+
+function stringList(raw: Record<string, unknown>, key: string, source: string): string[] | undefined {
+  const value = raw[key];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`${source}: "${key}" must be a list of strings`);
+  }
+  return value;
+}
+
+function integer(raw: Record<string, unknown>, key: string, source: string, min: number): number | undefined {
+  const value = raw[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+    throw new Error(`${source}: "${key}" must be an integer of at least ${min}`);
+  }
+  return value;
+}
+
+/** Validates a parsed suite document; `source` names it in error messages. */
+export function parseSuite(raw: unknown, source: string): BenchmarkSuite {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${source}: a suite must be an object`);
+  }
+  const doc = raw as Record<string, unknown>;
+
+  const operations = stringList(doc, "operations", source);
+  if (!operations || operations.length === 0) {
+    throw new Error(`${source}: "operations" is required`);
+  }
+  for (const operation of operations) {
+    if (!isExecutorOperation(operation)) {
+      throw new Error(`${source}: unsupported operation "${operation}"`);
+    }
+  }
+
+  const types = stringList(doc, "types", source);
+  if (!types || types.length === 0) {
+    throw new Error(`${source}: "types" is required`);
+  }
+  for (const fheType of types) {
+    if (!isFheTypeName(fheType)) {
+      throw new Error(`${source}: unsupported encrypted type "${fheType}"`);
+    }
+  }
+
+  const operandModes = stringList(doc, "operandModes", source) ?? ["ciphertext"];
+  for (const operandMode of operandModes) {
+    if (!isOperandMode(operandMode)) {
+      throw new Error(`${source}: unsupported operand mode "${operandMode}"`);
+    }
+  }
+
+  const seeds = doc.seeds ?? [];
+  if (!Array.isArray(seeds) || seeds.some((seed) => typeof seed !== "number" || !Number.isInteger(seed))) {
+    throw new Error(`${source}: "seeds" must be a list of integers`);
+  }
+
+  if (doc.name !== undefined && typeof doc.name !== "string") {
+    throw new Error(`${source}: "name" must be a string`);
+  }
+
+  return {
+    name: doc.name ?? path.basename(source, path.extname(source)),
+    operations,
+    types: types.filter(isFheTypeName),
+    operandModes: operandModes.filter(isOperandMode),
+    iterations: integer(doc, "iterations", source, 1) ?? DEFAULT_ITERATIONS,
+    warmup: integer(doc, "warmup", source, 0) ?? DEFAULT_WARMUP,
+    seeds,
+  };
+}
+
+/** Reads a suite file, as YAML for `.yml`/`.yaml` and as JSON otherwise. */
+export function loadSuite(file: string): BenchmarkSuite {
+  const text = fs.readFileSync(file, "utf8");
+  const extension = path.extname(file).toLowerCase();
+  const raw = extension === ".yml" || extension === ".yaml" ? yaml.load(text) : JSON.parse(text);
+  return parseSuite(raw, file);
+}
+
+/** Runs every case of the suite in order, skipping combinations the executor does not implement. */
+export async function runSuite(
+  hre: HardhatRuntimeEnvironment,
+  bench: FHEOperationBenchmark,
+  suite: BenchmarkSuite,
+  onRecord?: (record: BenchmarkRecord) => void,
+): Promise<SuiteResult> {
+  const seeds = suite.seeds.length > 0 ? suite.seeds : [undefined];
+  const result: SuiteResult = { suite: suite.name, records: [], skipped: [] };
+
+  for (const operation of suite.operations) {
+    for (const fheType of suite.types) {
+      for (const operandMode of suite.operandModes) {
+        for (const seed of seeds) {
+          const values = seed === undefined ? undefined : seededOperandValues(seed);
+          if (!(await supportsOperation(bench, operation, fheType, operandMode, values))) {
+            result.skipped.push({ operation, fheType, operandMode });
+            break;
+          }
+          const record = await runOperationBenchmark(hre, bench, {
+            operation,
+            fheType,
+            operandMode,
+            iterations: suite.iterations,
+            warmup: suite.warmup,
+            values,
+          });
+          if (seed !== undefined) record.seed = seed;
+          result.records.push(record);
+          onRecord?.(record);
+        }
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,115 @@
+import type { SampleSummary } from "./stats";
+
+/**
+ * A single benchmark result, in the shape the dashboard (`frontend/web/src/App.tsx`)
+ * stores in the UniversalAdapter. Node-side runners emit the same shape so their
+ * output can be published or compared without conversion.
+ */
+export interface BenchmarkRecord {
+  id: string;
+  scheme: string;
+  encryptedData: string;
+  timestamp: number;
+  owner: string;
+  operation: string;
+  /** Encrypted operand type, e.g. `euint32`. */
+  fheType?: string;
+  /** Whether the right-hand operand was a ciphertext or a plaintext scalar. */
+  operandMode?: "ciphertext" | "scalar";
+  /** Suite seed the operand values were derived from. */
+  seed?: number;
+  /** Mean wall-clock time per measured iteration, in milliseconds. */
+  executionTime: number;
+  /** Distribution of the per-iteration times behind `executionTime`, in milliseconds. */
+  executionStats?: SampleSummary;
+  /** Unmeasured executions run before timing started. */
+  warmup?: number;
+  /** Measured executions; the length of `samples`. */
+  iterations?: number;
+  /** Raw per-iteration wall-clock times, in milliseconds. */
+  samples?: number[];
+  /** Resident set size of the benchmarking process, in megabytes. */
+  memoryUsage: number;
+  /** Mean gas spent inside the FHEVM executor call, when measured on-chain. */
+  gasUsed?: number;
+  /** Size of the encrypted operand with its input proof, in bytes, when encrypted with the relayer SDK. */
+  ciphertextSize?: number;
+  /** FHEBenchmarkToolFHE batch the dashboard contributed this record's metrics to. */
+  batchId?: number;
+}
+
+/** `FHEBenchmarkToolFHE.Metric`, in declaration order; units are those the dashboard submits. */
+export enum Metric {
+  ExecutionTime,
+  MemoryUsage,
+  GasUsed,
+  CiphertextSize,
+}
+
+/** `FHEBenchmarkToolFHE.RequestStatus`, in declaration order. */
+export enum RequestStatus {
+  None,
+  Pending,
+  Fulfilled,
+  Cancelled,
+  Expired,
+}
+
+/** `FHEBenchmarkToolFHE.CloseReason`, in declaration order. */
+export enum CloseReason {
+  SubmissionLimit,
+  Deadline,
+}
+
+/** Gas of one public function across every transaction the profile sent to it. */
+export interface FunctionGas {
+  function: string;
+  /** Successful transactions, which `min`, `mean` and `max` cover. */
+  calls: number;
+  min: number;
+  mean: number;
+  max: number;
+  /** Transactions that reverted; their gas is not part of the figures above. */
+  reverts: number;
+  revertReason?: string;
+}
+
+/** A public state-changing function without a single successful transaction, and why. */
+export interface UnmeasuredFunction {
+  function: string;
+  reason: string;
+}
+
+export interface ContractGasProfile {
+  contract: string;
+  address: string;
+  deploymentGas: number;
+  /** Functions with at least one successful transaction. */
+  functions: FunctionGas[];
+  unmeasured: UnmeasuredFunction[];
+}
+
+/** Output of `npx hardhat benchmark:gas`, loaded by the dashboard's Gas Profile panel. */
+export interface GasProfile {
+  network: string;
+  generatedAt: string;
+  contracts: ContractGasProfile[];
+}
+
+/** One decryption request the local oracle relayer answered, or tried to. */
+export interface RelayedDecryption {
+  requestId: bigint;
+  /** Contract that requested the decryption and receives the callback. */
+  contract: string;
+  callback: string;
+  handles: string[];
+  /** Decrypted values in handle order, as abi-encoded into the callback. */
+  cleartexts: (bigint | boolean | string)[];
+  /** `rejected` when the callback would revert; nothing is sent in that case. */
+  status: "fulfilled" | "rejected";
+  transactionHash?: string;
+  gasUsed?: number;
+  reason?: string;
+}
+
+export const createRecordId = (): string => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
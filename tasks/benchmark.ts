@@ -0,0 +1,196 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name !== "");
+}
+
+// Without `--out` the JSON goes to stdout, so the human-readable summaries go to stderr and
+// `> results.json` still captures valid JSON
+function summaryLog(out: string | undefined): (line?: string) => void {
+  return out ? console.log : console.error;
+}
+
+function writeOutput(out: string | undefined, data: unknown[]) {
+  if (out) {
+    fs.writeFileSync(out, JSON.stringify(data, null, 2));
+    console.log(`Wrote ${data.length} entries to ${out}`);
+  } else {
+    console.log(JSON.stringify(data, null, 2));
+  }
+}
+
+/**
+ * Example:
+ *   npx hardhat node
+ *   npx hardhat benchmark:run --network localhost --operations fheAdd,fheMul --type euint64 --out results.json
+ *   npx hardhat benchmark:run --network localhost --operations fheDiv,fheRem --mode scalar
+ */
+task("benchmark:run", "Runs FHE operations on the mock FHEVM and reports benchmark records")
+  .addOptionalParam("operations", "Comma-separated IFHEVMExecutor operations", "fheAdd,fheSub,fheMul")
+  .addOptionalParam("type", "Encrypted operand type", "euint32")
+  .addOptionalParam("mode", "Operand mode of the right-hand side: ciphertext or scalar", "ciphertext")
+  .addOptionalParam("iterations", "Measured executions per operation", 5, types.int)
+  .addOptionalParam("warmup", "Unmeasured executions before timing each operation", 1, types.int)
+  .addOptionalParam("out", "Write the records to this JSON file instead of stdout")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    // Loaded lazily: the harness depends on typechain output, which does not exist before the first compile.
+    const { deployOperationBenchmark, runOperationBenchmark, supportsOperation } = await import(
+      "../src/benchmark/harness"
+    );
+    const { isExecutorOperation, isFheTypeName, isOperandMode } = await import("../src/benchmark/operations");
+    const { formatSummary } = await import("../src/benchmark/stats");
+
+    const operations = parseList(taskArguments.operations) ?? [];
+    for (const operation of operations) {
+      if (!isExecutorOperation(operation)) {
+        throw new Error(`Unsupported operation "${operation}"`);
+      }
+    }
+    const fheType = taskArguments.type;
+    if (!isFheTypeName(fheType)) {
+      throw new Error(`Unsupported encrypted type "${fheType}"`);
+    }
+    const operandMode = taskArguments.mode;
+    if (!isOperandMode(operandMode)) {
+      throw new Error(`Unsupported operand mode "${operandMode}"`);
+    }
+
+    await hre.fhevm.initializeCLIApi();
+    const bench = await deployOperationBenchmark(hre);
+    const log = summaryLog(taskArguments.out);
+
+    const records = [];
+    for (const operation of operations) {
+      if (!(await supportsOperation(bench, operation, fheType, operandMode))) {
+        throw new Error(`The FHEVM executor does not support ${operation} on ${fheType} in ${operandMode} mode`);
+      }
+      const record = await runOperationBenchmark(hre, bench, {
+        operation,
+        fheType,
+        operandMode,
+        iterations: taskArguments.iterations,
+        warmup: taskArguments.warmup,
+      });
+      log(`${operation} ${fheType} (${operandMode}): ${formatSummary(record.executionStats!, "ms")}, ${record.gasUsed} gas`);
+      records.push(record);
+    }
+    writeOutput(taskArguments.out, records);
+  });
+
+/**
+ * Example:
+ *   npx hardhat benchmark:matrix --network localhost --types euint8,euint64 --out matrix.json
+ *   npx hardhat benchmark:matrix --network localhost --operations fheAdd,fheMul --modes ciphertext,scalar
+ */
+task("benchmark:matrix", "Benchmarks every IFHEVMExecutor operation across encrypted types and operand modes")
+  .addOptionalParam("operations", "Comma-separated IFHEVMExecutor operations (default: all)")
+  .addOptionalParam("types", "Comma-separated encrypted types (default: ebool and euint8 to euint128)")
+  .addOptionalParam("modes", "Comma-separated operand modes (default: ciphertext,scalar)")
+  .addOptionalParam("iterations", "Measured executions per cell", 3, types.int)
+  .addOptionalParam("warmup", "Unmeasured executions before timing each cell", 1, types.int)
+  .addOptionalParam("out", "Write the matrix cells to this JSON file instead of stdout")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployOperationBenchmark } = await import("../src/benchmark/harness");
+    const { compareOperandModes, formatMatrix, formatModeComparison, runOperationMatrix } = await import(
+      "../src/benchmark/matrix"
+    );
+    const { isExecutorOperation, isFheTypeName, isOperandMode } = await import("../src/benchmark/operations");
+
+    const operations = parseList(taskArguments.operations);
+    for (const operation of operations ?? []) {
+      if (!isExecutorOperation(operation)) {
+        throw new Error(`Unsupported operation "${operation}"`);
+      }
+    }
+    const fheTypes = parseList(taskArguments.types);
+    for (const fheType of fheTypes ?? []) {
+      if (!isFheTypeName(fheType)) {
+        throw new Error(`Unsupported encrypted type "${fheType}"`);
+      }
+    }
+    const operandModes = parseList(taskArguments.modes);
+    for (const operandMode of operandModes ?? []) {
+      if (!isOperandMode(operandMode)) {
+        throw new Error(`Unsupported operand mode "${operandMode}"`);
+      }
+    }
+
+    await hre.fhevm.initializeCLIApi();
+    const bench = await deployOperationBenchmark(hre);
+
+    const cells = await runOperationMatrix(hre, bench, {
+      operations,
+      fheTypes: fheTypes?.filter(isFheTypeName),
+      operandModes: operandModes?.filter(isOperandMode),
+      iterations: taskArguments.iterations,
+      warmup: taskArguments.warmup,
+    });
+    const log = summaryLog(taskArguments.out);
+    log(formatMatrix(cells));
+    const comparisons = compareOperandModes(cells).filter((c) => c.ciphertext && c.scalar);
+    if (comparisons.length > 0) {
+      log();
+      log(formatModeComparison(comparisons));
+    }
+    writeOutput(taskArguments.out, cells);
+  });
+
+/**
+ * Runs a JSON or YAML suite file (see src/benchmark/suite.ts) and writes the
+ * records in the shape the dashboard loads. Example:
+ *   npx hardhat benchmark:suite --network localhost --suite scripts/suites/arithmetic.yml
+ */
+task("benchmark:suite", "Runs a declarative benchmark suite and writes the records to disk")
+  .addParam("suite", "Path to the JSON or YAML suite file")
+  .addOptionalParam("out", "Output file (default: benchmark-results/<suite name>.json)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployOperationBenchmark } = await import("../src/benchmark/harness");
+    const { formatSummary } = await import("../src/benchmark/stats");
+    const { loadSuite, runSuite } = await import("../src/benchmark/suite");
+
+    const suite = loadSuite(taskArguments.suite);
+
+    await hre.fhevm.initializeCLIApi();
+    const bench = await deployOperationBenchmark(hre);
+
+    const result = await runSuite(hre, bench, suite, (record) => {
+      const seed = record.seed === undefined ? "" : ` seed ${record.seed}`;
+      const timing = formatSummary(record.executionStats!, "ms");
+      console.log(`${record.operation} ${record.fheType} (${record.operandMode})${seed}: ${timing}, ${record.gasUsed} gas`);
+    });
+    for (const { operation, fheType, operandMode } of result.skipped) {
+      console.warn(`Skipped ${operation} ${fheType} (${operandMode}): not supported by the FHEVM executor`);
+    }
+
+    const out = taskArguments.out ?? path.join("benchmark-results", `${suite.name}.json`);
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    writeOutput(out, result.records);
+  });
+
+/**
+ * Deploys FHEBenchmarkToolFHE and the contracts shipped as typechain bindings,
+ * calls each public function and writes the per-function gas table the
+ * dashboard's Gas Profile panel loads. Example:
+ *   npx hardhat node
+ *   npx hardhat benchmark:gas --network localhost --out gas.json
+ */
+task("benchmark:gas", "Measures the gas of every public contract function on the mock FHEVM")
+  .addOptionalParam("out", "Output file", path.join("benchmark-results", "gas-profile.json"))
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { formatGasProfile, runGasProfile } = await import("../src/benchmark/gasProfile");
+
+    await hre.fhevm.initializeCLIApi();
+    const profile = await runGasProfile(hre);
+    console.log(formatGasProfile(profile));
+
+    fs.mkdirSync(path.dirname(taskArguments.out), { recursive: true });
+    fs.writeFileSync(taskArguments.out, JSON.stringify(profile, null, 2));
+    console.log(`Wrote ${profile.contracts.length} contract profiles to ${taskArguments.out}`);
+  });
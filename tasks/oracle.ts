@@ -0,0 +1,34 @@
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Answers `FHE.requestDecryption` calls on a local node, which has no Zama
+ * oracle, so the batch decryption flow completes in the dashboard. Example:
+ *   npx hardhat node
+ *   npx hardhat oracle:relay --network localhost
+ *   npx hardhat oracle:relay --network localhost --once --from-block 120
+ */
+task("oracle:relay", "Decrypts pending oracle requests with the mock keys and sends their callbacks")
+  .addOptionalParam("fromBlock", "First block to scan for decryption requests", 0, types.int)
+  .addOptionalParam("interval", "Milliseconds between polls", 1000, types.int)
+  .addOptionalParam("account", "Index of the signer that sends the callbacks", 0, types.int)
+  .addFlag("once", "Answer the requests emitted so far and exit")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { createOracleRelayer, formatRelayedDecryption } = await import("../src/benchmark/oracle");
+
+    await hre.fhevm.initializeCLIApi();
+    const signer = (await hre.ethers.getSigners())[taskArguments.account];
+    if (!signer) {
+      throw new Error(`No signer at index ${taskArguments.account}`);
+    }
+    const relayer = await createOracleRelayer(hre, { fromBlock: taskArguments.fromBlock, signer });
+    console.log(`Relaying decryption requests from block ${relayer.nextBlock} as ${await signer.getAddress()}`);
+
+    for (;;) {
+      for (const relayed of await relayer.relay()) {
+        console.log(formatRelayedDecryption(relayed));
+      }
+      if (taskArguments.once) return;
+      await new Promise((resolve) => setTimeout(resolve, taskArguments.interval));
+    }
+  });
@@ -0,0 +1,62 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+
+// The tasks need `--network localhost` to run, but they validate their
+// arguments first, so bad input is rejected on any network.
+describe("benchmark tasks", function () {
+  describe("benchmark:run", function () {
+    it("rejects unknown operations", async function () {
+      await expect(hre.run("benchmark:run", { operations: "fheAdd, fheSqrt" })).to.be.rejectedWith(
+        'Unsupported operation "fheSqrt"',
+      );
+    });
+
+    it("rejects unknown encrypted types", async function () {
+      await expect(hre.run("benchmark:run", { type: "euint256" })).to.be.rejectedWith(
+        'Unsupported encrypted type "euint256"',
+      );
+    });
+
+    it("rejects unknown operand modes", async function () {
+      await expect(hre.run("benchmark:run", { mode: "plain" })).to.be.rejectedWith('Unsupported operand mode "plain"');
+    });
+  });
+
+  describe("benchmark:matrix", function () {
+    it("rejects unknown operations, types and operand modes", async function () {
+      await expect(hre.run("benchmark:matrix", { operations: "fheSqrt" })).to.be.rejectedWith(
+        'Unsupported operation "fheSqrt"',
+      );
+      await expect(hre.run("benchmark:matrix", { types: "euint8,eaddress" })).to.be.rejectedWith(
+        'Unsupported encrypted type "eaddress"',
+      );
+      await expect(hre.run("benchmark:matrix", { modes: "scalar,plain" })).to.be.rejectedWith(
+        'Unsupported operand mode "plain"',
+      );
+    });
+  });
+
+  describe("benchmark:suite", function () {
+    let dir: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "suite-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("rejects an invalid suite file before running anything", async function () {
+      const suite = path.join(dir, "broken.yml");
+      fs.writeFileSync(suite, "operations: [fheAdd]\ntypes: [euint7]\n");
+      await expect(hre.run("benchmark:suite", { suite })).to.be.rejectedWith(
+        `${suite}: unsupported encrypted type "euint7"`,
+      );
+      expect(fs.existsSync(path.join("benchmark-results", "broken.json"))).to.eq(false);
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { setStorageAt, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers, fhevm } from "hardhat";
+import { revertReason } from "../src/benchmark/oracle";
+import { FHEBenchmarkToolFHE } from "../types";
+import {
+  CloseReason,
+  Metric,
+  RequestStatus,
+  Signers,
+  deployBenchmarkTool,
+  namedSigners,
+  openBatch,
+  skipUnlessMock,
+  tag,
+} from "./helpers";
+
+const COOLDOWN = 60;
+
+/**
+ * Storage slot of `batchMetrics[batchId][metric]`. The mapping is private, so its base slot is found by looking
+ * for the aggregate's known submission count, which is the struct's first member.
+ */
+async function aggregateSlot(toolAddress: string, batchId: number, metric: Metric, dataCount: number) {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  for (let base = 0; base < 64; base++) {
+    const outer = ethers.keccak256(coder.encode(["uint256", "uint256"], [batchId, base]));
+    const slot = BigInt(ethers.keccak256(coder.encode(["uint256", "bytes32"], [metric, outer])));
+    const count = BigInt(await ethers.provider.getStorage(toolAddress, slot));
+    const total = BigInt(await ethers.provider.getStorage(toolAddress, slot + 1n));
+    if (count === BigInt(dataCount) && total !== 0n) return slot;
+  }
+  throw new Error("batchMetrics slot not found");
+}
+
+describe("FHEBenchmarkToolFHE", function () {
+  let signers: Signers<"owner" | "alice" | "bob" | "mallory">;
+  let tool: FHEBenchmarkToolFHE;
+  let toolAddress: string;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob", "mallory");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool, toolAddress } = await deployBenchmarkTool(signers.alice, signers.bob));
+  });
+
+  afterEach(async function () {
+    // Deliver (or drop) answers the contract rejects so they cannot abort a later test's oracle run
+    await fhevm.awaitDecryptionOracle().catch(() => undefined);
+  });
+
+  async function submit(provider: HardhatEthersSigner, executionTime: number, batchId = 1) {
+    return tool.connect(provider).submitBenchmarkData(batchId, executionTime);
+  }
+
+  async function encrypt(provider: HardhatEthersSigner, executionTime: number) {
+    const input = fhevm.createEncryptedInput(toolAddress, provider.address);
+    const { handles, inputProof } = await input.add32(executionTime).encrypt();
+    return [handles[0], inputProof] as const;
+  }
+
+  async function encryptedSubmission(provider: HardhatEthersSigner, executionTime: number, batchId = 1) {
+    return tool.connect(provider).submitEncryptedBenchmarkData(batchId, ...(await encrypt(provider, executionTime)));
+  }
+
+  /** Opens batch 1 with two submissions, closes it and requests its execution time aggregates. */
+  async function requestClosedBatch() {
+    await openBatch(tool);
+    await submit(signers.alice, 120);
+    await submit(signers.bob, 80);
+    await tool.closeBatch(1);
+    await tool.requestBenchmarkResultDecryption(1);
+    return tool.latestRequestIds(1, Metric.ExecutionTime);
+  }
+
+  describe("deployment", function () {
+    it("starts unpaused with no batches and default cooldowns", async function () {
+      expect(await tool.owner()).to.eq(signers.owner.address);
+      expect(await tool.paused()).to.eq(false);
+      expect(await tool.currentBatchId()).to.eq(0);
+      expect(await tool.submissionCooldown()).to.eq(COOLDOWN);
+      expect(await tool.decryptionCooldown()).to.eq(COOLDOWN);
+      expect(await tool.getOpenBatchIds()).to.deep.eq([]);
+    });
+  });
+
+  describe("providers", function () {
+    it("adds and removes providers", async function () {
+      await expect(tool.addProvider(signers.mallory.address))
+        .to.emit(tool, "ProviderAdded")
+        .withArgs(signers.mallory.address);
+      expect(await tool.providers(signers.mallory.address)).to.eq(true);
+      await expect(tool.removeProvider(signers.mallory.address))
+        .to.emit(tool, "ProviderRemoved")
+        .withArgs(signers.mallory.address);
+      expect(await tool.providers(signers.mallory.address)).to.eq(false);
+    });
+
+    it("rejects submissions from other accounts", async function () {
+      await openBatch(tool);
+      await expect(submit(signers.mallory, 100)).to.be.revertedWithCustomError(tool, "NotProvider");
+
+      // Hardhat cannot trace these reverts in the viaIR build and the FHEVM plugin then masks them, so simulate them
+      const asMallory = tool.connect(signers.mallory);
+      const [handle, inputProof] = await encrypt(signers.mallory, 100);
+      await expect(
+        asMallory.submitEncryptedBenchmarkData.staticCall(1, handle, inputProof),
+      ).to.be.revertedWithCustomError(tool, "NotProvider");
+      await expect(
+        asMallory.submitBenchmarkDataBatch.staticCall(1, [handle], inputProof),
+      ).to.be.revertedWithCustomError(tool, "NotProvider");
+      await expect(
+        asMallory.submitEncryptedBenchmarkMetrics.staticCall(1, handle, handle, handle, handle, inputProof),
+      ).to.be.revertedWithCustomError(tool, "NotProvider");
+    });
+
+    it("rejects submissions from removed providers", async function () {
+      await openBatch(tool);
+      await tool.removeProvider(signers.alice.address);
+      await expect(submit(signers.alice, 100)).to.be.revertedWithCustomError(tool, "NotProvider");
+    });
+  });
+
+  describe("batch lifecycle", function () {
+    it("opens numbered batches with their tags", async function () {
+      await expect(tool.openBatch(tag("TFHE"), tag("fheAdd"), tag("euint32"), tag("default")))
+        .to.emit(tool, "BatchOpened")
+        .withArgs(1, tag("TFHE"), tag("fheAdd"), tag("euint32"), tag("default"));
+      await openBatch(tool, "fheMul");
+
+      const batch = await tool.batches(2);
+      expect(batch.id).to.eq(2);
+      expect(batch.active).to.eq(true);
+      expect(batch.dataCount).to.eq(0);
+      expect(batch.operation).to.eq(tag("fheMul"));
+      expect(await tool.getOpenBatchIds()).to.deep.eq([1n, 2n]);
+    });
+
+    it("counts submissions", async function () {
+      await openBatch(tool);
+      await expect(submit(signers.alice, 120)).to.emit(tool, "DataSubmitted").withArgs(signers.alice.address, 1, 1);
+      await expect(encryptedSubmission(signers.bob, 80))
+        .to.emit(tool, "DataSubmitted")
+        .withArgs(signers.bob.address, 1, 2);
+      expect((await tool.batches(1)).dataCount).to.eq(2);
+    });
+
+    it("closes a batch", async function () {
+      await openBatch(tool);
+      await submit(signers.alice, 120);
+      await expect(tool.closeBatch(1)).to.emit(tool, "BatchClosed").withArgs(1, 1);
+      expect((await tool.batches(1)).active).to.eq(false);
+      expect(await tool.getOpenBatchIds()).to.deep.eq([]);
+    });
+
+    it("rejects submissions to a closed batch", async function () {
+      await openBatch(tool);
+      await tool.closeBatch(1);
+      await expect(submit(signers.alice, 120)).to.be.revertedWithCustomError(tool, "BatchNotActive");
+      await expect(encryptedSubmission(signers.bob, 80)).to.be.revertedWithCustomError(tool, "BatchNotActive");
+    });
+
+    it("rejects submissions to unknown batches", async function () {
+      await openBatch(tool);
+      await expect(submit(signers.alice, 120, 0)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+      await expect(submit(signers.bob, 120, 2)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+    });
+
+    it("only closes open batches", async function () {
+      await openBatch(tool);
+      await expect(tool.closeBatch(0)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+      await expect(tool.closeBatch(2)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+      await tool.closeBatch(1);
+      await expect(tool.closeBatch(1)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+    });
+
+    it("only decrypts closed batches", async function () {
+      await openBatch(tool);
+      await submit(signers.alice, 120);
+      await submit(signers.bob, 80);
+      await expect(tool.requestBenchmarkResultDecryption(1)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+      await expect(tool.requestBenchmarkResultDecryption(0)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+      await expect(tool.requestBenchmarkResultDecryption(2)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+    });
+
+    it("publishes the decrypted aggregates", async function () {
+      const requestId = await requestClosedBatch();
+      expect((await tool.getBatchResult(1, Metric.ExecutionTime)).decrypted).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const result = await tool.getBatchResult(1, Metric.ExecutionTime);
+      expect(result.batchId).to.eq(1);
+      expect(result.decrypted).to.eq(true);
+      expect(result.dataCount).to.eq(2);
+      expect(result.total).to.eq(200);
+      expect(result.min).to.eq(80);
+      expect(result.max).to.eq(120);
+      expect(result.sumOfSquares).to.eq(120 ** 2 + 80 ** 2);
+      expect(result.average).to.eq(100);
+      expect(result.decryptedAt).to.eq(await time.latest());
+      expect(await tool.getDecryptionStatus(requestId)).to.eq(RequestStatus.Fulfilled);
+    });
+
+    it("returns results by batch range", async function () {
+      await requestClosedBatch();
+      await fhevm.awaitDecryptionOracle();
+      await openBatch(tool, "fheMul");
+
+      const results = await tool.getBatchResults(1, 2, Metric.ExecutionTime);
+      expect(results.map((result) => result.decrypted)).to.deep.eq([true, false]);
+      await expect(tool.getBatchResults(0, 1, Metric.ExecutionTime)).to.be.revertedWithCustomError(
+        tool,
+        "InvalidRange",
+      );
+      await expect(tool.getBatchResults(2, 1, Metric.ExecutionTime)).to.be.revertedWithCustomError(
+        tool,
+        "InvalidRange",
+      );
+      await expect(tool.getBatchResults(1, 3, Metric.ExecutionTime)).to.be.revertedWithCustomError(
+        tool,
+        "InvalidRange",
+      );
+      await expect(tool.getBatchResult(3, Metric.ExecutionTime)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+    });
+  });
+
+  describe("cooldowns", function () {
+    beforeEach(async function () {
+      await openBatch(tool);
+    });
+
+    it("rejects a provider's next submission until the cooldown has elapsed", async function () {
+      await submit(signers.alice, 120);
+      const submittedAt = await time.latest();
+
+      await time.setNextBlockTimestamp(submittedAt + COOLDOWN - 1);
+      await expect(submit(signers.alice, 100)).to.be.revertedWithCustomError(tool, "CooldownActive");
+      await time.setNextBlockTimestamp(submittedAt + COOLDOWN);
+      await expect(submit(signers.alice, 100)).to.emit(tool, "DataSubmitted");
+    });
+
+    it("tracks each provider separately", async function () {
+      await submit(signers.alice, 120);
+      await expect(submit(signers.bob, 80)).to.emit(tool, "DataSubmitted");
+    });
+
+    it("spaces out decryption requests", async function () {
+      await submit(signers.alice, 120);
+      await submit(signers.bob, 80);
+      await tool.closeBatch(1);
+      await openBatch(tool, "fheMul");
+      await time.increase(COOLDOWN);
+      await submit(signers.alice, 300, 2);
+      await submit(signers.bob, 500, 2);
+      await tool.closeBatch(2);
+
+      await tool.requestBenchmarkResultDecryption(1);
+      const requestedAt = await time.latest();
+      await time.setNextBlockTimestamp(requestedAt + COOLDOWN - 1);
+      await expect(tool.requestBenchmarkResultDecryption(2)).to.be.revertedWithCustomError(tool, "CooldownActive");
+      await time.setNextBlockTimestamp(requestedAt + COOLDOWN);
+      await expect(tool.requestBenchmarkResultDecryption(2)).to.emit(tool, "DecryptionRequested");
+    });
+
+    it("rejects zero cooldowns", async function () {
+      await expect(tool.setSubmissionCooldown(0)).to.be.revertedWithCustomError(tool, "InvalidCooldown");
+      await expect(tool.setDecryptionCooldown(0)).to.be.revertedWithCustomError(tool, "InvalidCooldown");
+    });
+  });
+
+  describe("pause", function () {
+    beforeEach(async function () {
+      await openBatch(tool);
+      await submit(signers.alice, 120);
+      await submit(signers.bob, 80);
+    });
+
+    it("emits Paused and Unpaused", async function () {
+      await expect(tool.pause()).to.emit(tool, "Paused").withArgs(signers.owner.address);
+      expect(await tool.paused()).to.eq(true);
+      await expect(tool.unpause()).to.emit(tool, "Unpaused").withArgs(signers.owner.address);
+      expect(await tool.paused()).to.eq(false);
+    });
+
+    it("cannot pause twice", async function () {
+      await tool.pause();
+      await expect(tool.pause()).to.be.revertedWithCustomError(tool, "PausedError");
+    });
+
+    it("blocks submissions, batch management and decryption requests", async function () {
+      await time.increase(COOLDOWN);
+      await tool.pause();
+
+      await expect(submit(signers.alice, 100)).to.be.revertedWithCustomError(tool, "PausedError");
+      // Simulated, like the NotProvider cases above
+      await expect(
+        tool.connect(signers.bob).submitEncryptedBenchmarkData.staticCall(1, ...(await encrypt(signers.bob, 100))),
+      ).to.be.revertedWithCustomError(tool, "PausedError");
+      await expect(
+        tool.openBatch(tag("TFHE"), tag("fheMul"), tag("euint32"), tag("default")),
+      ).to.be.revertedWithCustomError(tool, "PausedError");
+      await expect(tool.setBatchPolicy(1, 2, 0, 0)).to.be.revertedWithCustomError(tool, "PausedError");
+      await expect(tool.closeBatch(1)).to.be.revertedWithCustomError(tool, "PausedError");
+      await expect(tool.requestMetricDecryption.staticCall(1, Metric.ExecutionTime)).to.be.revertedWithCustomError(
+        tool,
+        "PausedError",
+      );
+    });
+
+    it("resumes once unpaused", async function () {
+      await tool.pause();
+      await tool.unpause();
+      await time.increase(COOLDOWN);
+      await expect(submit(signers.alice, 100)).to.emit(tool, "DataSubmitted");
+      await expect(tool.closeBatch(1)).to.emit(tool, "BatchClosed");
+    });
+
+    it("still delivers answers to requests made before the pause", async function () {
+      await tool.closeBatch(1);
+      await tool.requestBenchmarkResultDecryption(1);
+      await tool.pause();
+      await fhevm.awaitDecryptionOracle();
+      expect((await tool.getBatchResult(1, Metric.ExecutionTime)).total).to.eq(200);
+    });
+  });
+
+  describe("decryption callback", function () {
+    let requestId: bigint;
+
+    beforeEach(async function () {
+      requestId = await requestClosedBatch();
+    });
+
+    it("rejects a replayed answer", async function () {
+      await fhevm.awaitDecryptionOracle();
+      await expect(tool.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(tool, "ReplayAttempt");
+    });
+
+    it("rejects answers to unknown requests", async function () {
+      await expect(tool.myCallback(requestId + 1n, "0x", "0x")).to.be.revertedWithCustomError(
+        tool,
+        "RequestNotPending",
+      );
+    });
+
+    it("rejects an answer whose aggregates changed since the request", async function () {
+      const slot = await aggregateSlot(toolAddress, 1, Metric.ExecutionTime, 2);
+      const tamperedTotal = ethers.toBeHex(BigInt(await ethers.provider.getStorage(toolAddress, slot + 1n)) ^ 1n, 32);
+      await setStorageAt(toolAddress, slot + 1n, tamperedTotal);
+
+      await expect(tool.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(tool, "StateMismatch");
+      const rejection = await fhevm.awaitDecryptionOracle().then(
+        () => expect.fail("the oracle's answer was accepted"),
+        (error: unknown) => error,
+      );
+      expect(revertReason(tool.interface, rejection)).to.eq("StateMismatch");
+      expect(await tool.getDecryptionStatus(requestId)).to.eq(RequestStatus.Pending);
+      expect((await tool.getBatchResult(1, Metric.ExecutionTime)).decrypted).to.eq(false);
+    });
+
+    it("rejects answers without valid KMS signatures", async function () {
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256", "uint256", "uint256"],
+        [1, 1, 1, 1],
+      );
+      await expect(tool.connect(signers.mallory).myCallback(requestId, forged, "0x")).to.be.reverted;
+      expect((await tool.getBatchResult(1, Metric.ExecutionTime)).decrypted).to.eq(false);
+
+      // The genuine answer still goes through afterwards
+      await fhevm.awaitDecryptionOracle();
+      expect((await tool.getBatchResult(1, Metric.ExecutionTime)).total).to.eq(200);
+    });
+  });
+
+  describe("TypeScript enums", function () {
+    type AstNode = { nodeType: string; name: string; nodes: AstNode[]; members: AstNode[] };
+
+    it("mirror the contract's enum declarations", async function () {
+      const source = "contracts/FHE_Benchmark_Tool.sol";
+      const buildInfo = await hre.artifacts.getBuildInfo(`${source}:FHEBenchmarkToolFHE`);
+      const contract = (buildInfo!.output.sources[source].ast.nodes as AstNode[]).find(
+        (node) => node.nodeType === "ContractDefinition" && node.name === "FHEBenchmarkToolFHE",
+      )!;
+      const declared = Object.fromEntries(
+        contract.nodes
+          .filter((node) => node.nodeType === "EnumDefinition")
+          .map((node) => [node.name, node.members.map((member) => member.name)]),
+      );
+      const members = (values: object) => Object.keys(values).filter((key) => Number.isNaN(Number(key)));
+      expect(declared).to.deep.eq({
+        Metric: members(Metric),
+        CloseReason: members(CloseReason),
+        RequestStatus: members(RequestStatus),
+      });
+    });
+  });
+});
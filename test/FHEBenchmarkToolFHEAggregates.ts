@@ -0,0 +1,92 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import { FHEBenchmarkToolFHE } from "../types";
+import { Metric, Signers, deployBenchmarkTool, namedSigners, openBatch, skipUnlessMock } from "./helpers";
+
+describe("FHEBenchmarkToolFHE batch aggregates", function () {
+  let signers: Signers<"owner" | "alice" | "bob" | "carol">;
+  let tool: FHEBenchmarkToolFHE;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob", "carol");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool } = await deployBenchmarkTool(signers.alice, signers.bob, signers.carol));
+    await openBatch(tool);
+  });
+
+  async function submit(provider: HardhatEthersSigner, executionTime: number) {
+    return tool.connect(provider).submitBenchmarkData(1, executionTime);
+  }
+
+  /** Closes batch 1 and returns its decrypted execution time aggregates. */
+  async function decrypt() {
+    await tool.closeBatch(1);
+    await tool.requestBenchmarkResultDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+    return tool.getBatchResult(1, Metric.ExecutionTime);
+  }
+
+  it("keeps the smallest and largest sample whatever order they arrive in", async function () {
+    await submit(signers.alice, 300);
+    await submit(signers.bob, 50);
+    await submit(signers.carol, 700);
+
+    const result = await decrypt();
+    expect(result.min).to.eq(50);
+    expect(result.max).to.eq(700);
+    expect(result.total).to.eq(1050);
+  });
+
+  it("sums squares in 64 bits", async function () {
+    await submit(signers.alice, 100_000);
+    await submit(signers.bob, 70_000);
+
+    const result = await decrypt();
+    expect(result.sumOfSquares).to.eq(100_000 ** 2 + 70_000 ** 2);
+    expect(result.sumOfSquares).to.be.greaterThan(2n ** 32n);
+  });
+
+  it("reports a single sample as both minimum and maximum", async function () {
+    await tool.setBatchPolicy(1, 1, 0, 0);
+    await submit(signers.alice, 4200);
+
+    const result = await decrypt();
+    expect([result.min, result.max, result.total, result.sumOfSquares]).to.deep.eq([4200n, 4200n, 4200n, 4200n ** 2n]);
+  });
+
+  it("folds repeated submissions of one provider into the same aggregates", async function () {
+    await submit(signers.alice, 90);
+    await time.increase(60);
+    await submit(signers.alice, 30);
+    await submit(signers.bob, 60);
+
+    const result = await decrypt();
+    expect(result.dataCount).to.eq(3);
+    expect(result.min).to.eq(30);
+    expect(result.max).to.eq(90);
+    expect(result.sumOfSquares).to.eq(90 ** 2 + 30 ** 2 + 60 ** 2);
+  });
+
+  it("decrypts every aggregate of a metric in one request", async function () {
+    await submit(signers.alice, 120);
+    await submit(signers.bob, 80);
+    await tool.closeBatch(1);
+    await tool.requestBenchmarkResultDecryption(1);
+    const requestId = await tool.latestRequestIds(1, Metric.ExecutionTime);
+
+    await fhevm.awaitDecryptionOracle();
+    const [completed] = await tool.queryFilter(tool.filters.DecryptionCompleted);
+    expect(completed.args.requestId).to.eq(requestId);
+    expect([completed.args.total, completed.args.min, completed.args.max, completed.args.sumOfSquares]).to.deep.eq([
+      200n,
+      80n,
+      120n,
+      BigInt(120 ** 2 + 80 ** 2),
+    ]);
+  });
+});
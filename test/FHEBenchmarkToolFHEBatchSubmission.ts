@@ -0,0 +1,118 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import { FHEBenchmarkToolFHE } from "../types";
+import { Metric, Signers, deployBenchmarkTool, namedSigners, openBatch, skipUnlessMock } from "./helpers";
+
+describe("FHEBenchmarkToolFHE batched submissions", function () {
+  let signers: Signers<"owner" | "alice" | "bob">;
+  let tool: FHEBenchmarkToolFHE;
+  let toolAddress: string;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool, toolAddress } = await deployBenchmarkTool(signers.alice, signers.bob));
+    await openBatch(tool);
+  });
+
+  async function encryptSamples(provider: HardhatEthersSigner, samples: number[]) {
+    const input = fhevm.createEncryptedInput(toolAddress, provider.address);
+    samples.forEach((sample) => input.add32(sample));
+    return input.encrypt();
+  }
+
+  async function submitSamples(provider: HardhatEthersSigner, samples: number[]) {
+    const { handles, inputProof } = await encryptSamples(provider, samples);
+    return tool.connect(provider).submitBenchmarkDataBatch(1, handles, inputProof);
+  }
+
+  it("folds every sample into the execution time aggregate", async function () {
+    await submitSamples(signers.alice, [120, 80, 100, 140]);
+    await submitSamples(signers.bob, [60]);
+    await tool.closeBatch(1);
+    await tool.requestBenchmarkResultDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+
+    const result = await tool.getBatchResult(1, Metric.ExecutionTime);
+    expect(result.dataCount).to.eq(5);
+    expect(result.total).to.eq(500);
+    expect(result.min).to.eq(60);
+    expect(result.max).to.eq(140);
+    expect(result.sumOfSquares).to.eq(120 ** 2 + 80 ** 2 + 100 ** 2 + 140 ** 2 + 60 ** 2);
+  });
+
+  it("counts as a single submission", async function () {
+    await expect(submitSamples(signers.alice, [120, 80, 100]))
+      .to.emit(tool, "DataSubmitted")
+      .withArgs(signers.alice.address, 1, 1);
+    expect((await tool.batches(1)).dataCount).to.eq(1);
+    await expect(submitSamples(signers.alice, [90])).to.be.revertedWithCustomError(tool, "CooldownActive");
+  });
+
+  it("adds every sample to the provider's contribution", async function () {
+    await submitSamples(signers.alice, [120, 80, 100]);
+    const [total, count] = await tool.getContribution(1, signers.alice.address, Metric.ExecutionTime);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, total, toolAddress, signers.alice)).to.eq(300);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, count, toolAddress, signers.alice)).to.eq(3);
+  });
+
+  it("accepts up to MAX_SAMPLES_PER_SUBMISSION samples", async function () {
+    const max = Number(await tool.MAX_SAMPLES_PER_SUBMISSION());
+    await expect(submitSamples(signers.alice, Array.from({ length: max }, (_, i) => 100 + i))).to.emit(
+      tool,
+      "DataSubmitted",
+    );
+  });
+
+  it("rejects empty and oversized arrays", async function () {
+    const max = Number(await tool.MAX_SAMPLES_PER_SUBMISSION());
+    await expect(tool.connect(signers.alice).submitBenchmarkDataBatch(1, [], "0x")).to.be.revertedWithCustomError(
+      tool,
+      "InvalidSampleCount",
+    );
+    const { handles, inputProof } = await encryptSamples(
+      signers.alice,
+      Array.from({ length: max + 1 }, () => 100),
+    );
+    await expect(
+      tool.connect(signers.alice).submitBenchmarkDataBatch(1, handles, inputProof),
+    ).to.be.revertedWithCustomError(tool, "InvalidSampleCount");
+  });
+
+  it("rejects closed batches", async function () {
+    await tool.closeBatch(1);
+    await expect(submitSamples(signers.alice, [120])).to.be.revertedWithCustomError(tool, "BatchNotActive");
+  });
+
+  it("reports gas per sample by array length", async function () {
+    await tool.setCooldownExempt(signers.alice.address, true);
+    const max = Number(await tool.MAX_SAMPLES_PER_SUBMISSION());
+
+    const single = await encryptSamples(signers.alice, [100]);
+    const singleReceipt = await (
+      await tool.connect(signers.alice).submitEncryptedBenchmarkData(1, single.handles[0], single.inputProof)
+    ).wait();
+    const rows = [{ call: "submitEncryptedBenchmarkData", samples: 1, gas: singleReceipt!.gasUsed }];
+
+    for (const length of [...new Set([1, 2, 4, 8, max])]) {
+      const receipt = await (await submitSamples(signers.alice, Array.from({ length }, (_, i) => 100 + i))).wait();
+      rows.push({ call: "submitBenchmarkDataBatch", samples: length, gas: receipt!.gasUsed });
+    }
+
+    const perSample = rows.map((row) => row.gas / BigInt(row.samples));
+    const cheapest = rows.reduce((best, row, i) => (perSample[i] < perSample[rows.indexOf(best)] ? row : best));
+    console.log("      gas per sample:");
+    rows.forEach((row, i) => {
+      console.log(`        ${row.call.padEnd(30)} ${String(row.samples).padStart(3)} samples ${perSample[i]} gas/sample`);
+    });
+    console.log(`      cheapest chunk size: ${cheapest.samples} samples`);
+
+    // Batching amortizes the per-transaction and input proof overhead
+    expect(perSample.slice(2).every((gas) => gas < perSample[0])).to.eq(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import { FHEBenchmarkToolFHE } from "../types";
+import { Metric, Signers, deployBenchmarkTool, namedSigners, openBatch, skipUnlessMock, tag } from "./helpers";
+
+describe("FHEBenchmarkToolFHE concurrent batches", function () {
+  let signers: Signers<"owner" | "alice" | "bob">;
+  let tool: FHEBenchmarkToolFHE;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool } = await deployBenchmarkTool(signers.alice, signers.bob));
+  });
+
+  async function submit(provider: HardhatEthersSigner, executionTime: number, batchId: number) {
+    return tool.connect(provider).submitBenchmarkData(batchId, executionTime);
+  }
+
+  it("tags each batch with its own scheme, operation, type and parameter set", async function () {
+    await tool.openBatch(tag("TFHE"), tag("fheAdd"), tag("euint32"), tag("default"));
+    await tool.openBatch(tag("TFHE"), tag("fheMul"), tag("euint64"), tag("large"));
+
+    const [first, second] = [await tool.batches(1), await tool.batches(2)];
+    expect([first.operation, first.fheType, first.paramSet]).to.deep.eq([
+      tag("fheAdd"),
+      tag("euint32"),
+      tag("default"),
+    ]);
+    expect([second.operation, second.fheType, second.paramSet]).to.deep.eq([
+      tag("fheMul"),
+      tag("euint64"),
+      tag("large"),
+    ]);
+    expect(await tool.getOpenBatchIds()).to.deep.eq([1n, 2n]);
+  });
+
+  it("keeps each batch's submissions in its own aggregates", async function () {
+    const add = await openBatch(tool, "fheAdd");
+    const mul = await openBatch(tool, "fheMul");
+    await submit(signers.alice, 100, add);
+    await submit(signers.bob, 200, add);
+    await time.increase(60);
+    await submit(signers.alice, 1000, mul);
+    await submit(signers.bob, 3000, mul);
+
+    await tool.closeBatch(add);
+    await tool.closeBatch(mul);
+    await tool.requestBenchmarkResultDecryption(add);
+    await time.increase(60);
+    await tool.requestBenchmarkResultDecryption(mul);
+    await fhevm.awaitDecryptionOracle();
+
+    const results = await tool.getBatchResults(add, mul, Metric.ExecutionTime);
+    expect(results.map((result) => [result.dataCount, result.total, result.min, result.max])).to.deep.eq([
+      [2n, 300n, 100n, 200n],
+      [2n, 4000n, 1000n, 3000n],
+    ]);
+    expect((await tool.batches(add)).dataCount).to.eq(2);
+    expect((await tool.batches(mul)).dataCount).to.eq(2);
+  });
+
+  it("leaves the other batches open when one closes", async function () {
+    await openBatch(tool, "fheAdd");
+    await openBatch(tool, "fheSub");
+    await openBatch(tool, "fheMul");
+
+    await tool.closeBatch(2);
+    expect(await tool.getOpenBatchIds()).to.deep.eq([1n, 3n]);
+    await expect(submit(signers.alice, 100, 2)).to.be.revertedWithCustomError(tool, "BatchNotActive");
+    await expect(submit(signers.bob, 100, 3))
+      .to.emit(tool, "DataSubmitted")
+      .withArgs(signers.bob.address, 3, 1);
+  });
+
+  it("decrypts a closed batch while others stay open", async function () {
+    const closed = await openBatch(tool, "fheAdd");
+    const open = await openBatch(tool, "fheMul");
+    await submit(signers.alice, 120, closed);
+    await submit(signers.bob, 80, closed);
+    await time.increase(60);
+    await submit(signers.alice, 500, open);
+    await submit(signers.bob, 700, open);
+    await tool.closeBatch(closed);
+
+    await expect(tool.requestBenchmarkResultDecryption(open)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+    await tool.requestBenchmarkResultDecryption(closed);
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await tool.getBatchResult(closed, Metric.ExecutionTime)).total).to.eq(200);
+    expect(await tool.getOpenBatchIds()).to.deep.eq([BigInt(open)]);
+    await time.increase(60);
+    await expect(submit(signers.alice, 900, open))
+      .to.emit(tool, "DataSubmitted")
+      .withArgs(signers.alice.address, open, 3);
+  });
+});
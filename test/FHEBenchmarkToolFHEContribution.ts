@@ -0,0 +1,88 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FHEBenchmarkToolFHE } from "../types";
+import { Metric, Signers, deployBenchmarkTool, namedSigners, openBatch, skipUnlessMock } from "./helpers";
+
+describe("FHEBenchmarkToolFHE provider contributions", function () {
+  let signers: Signers<"owner" | "alice" | "bob">;
+  let tool: FHEBenchmarkToolFHE;
+  let toolAddress: string;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool, toolAddress } = await deployBenchmarkTool(signers.alice, signers.bob));
+    await openBatch(tool);
+  });
+
+  async function submitMetrics(provider: HardhatEthersSigner, values: number[]) {
+    const input = fhevm.createEncryptedInput(toolAddress, provider.address);
+    values.forEach((value) => input.add32(value));
+    const encrypted = await input.encrypt();
+    const [executionTime, memoryUsage, gasUsed, ciphertextSize] = encrypted.handles;
+    await tool.connect(provider).submitEncryptedBenchmarkMetrics(
+      1,
+      executionTime,
+      memoryUsage,
+      gasUsed,
+      ciphertextSize,
+      encrypted.inputProof,
+    );
+  }
+
+  async function decryptContribution(provider: HardhatEthersSigner, metric: Metric) {
+    const [total, count] = await tool.getContribution(1, provider.address, metric);
+    return {
+      total: await fhevm.userDecryptEuint(FhevmType.euint32, total, toolAddress, provider),
+      count: await fhevm.userDecryptEuint(FhevmType.euint32, count, toolAddress, provider),
+    };
+  }
+
+  it("keeps a running total and count per provider and metric", async function () {
+    await submitMetrics(signers.alice, [5000, 2048, 90000, 64]);
+    await time.increase(60);
+    await submitMetrics(signers.alice, [7000, 1024, 91000, 64]);
+    await submitMetrics(signers.bob, [1000, 512, 80000, 64]);
+
+    expect(await decryptContribution(signers.alice, Metric.ExecutionTime)).to.deep.eq({ total: 12000n, count: 2n });
+    expect(await decryptContribution(signers.alice, Metric.GasUsed)).to.deep.eq({ total: 181000n, count: 2n });
+    expect(await decryptContribution(signers.bob, Metric.MemoryUsage)).to.deep.eq({ total: 512n, count: 1n });
+  });
+
+  it("only counts the metrics a submission carried", async function () {
+    await tool.connect(signers.alice).submitBenchmarkData(1, 4200);
+
+    expect(await decryptContribution(signers.alice, Metric.ExecutionTime)).to.deep.eq({ total: 4200n, count: 1n });
+    const [total, count] = await tool.getContribution(1, signers.alice.address, Metric.MemoryUsage);
+    expect(total).to.eq(ethers.ZeroHash);
+    expect(count).to.eq(ethers.ZeroHash);
+  });
+
+  it("does not let other accounts decrypt a provider's contribution", async function () {
+    await submitMetrics(signers.alice, [5000, 2048, 90000, 64]);
+    const [total] = await tool.getContribution(1, signers.alice.address, Metric.ExecutionTime);
+
+    for (const other of [signers.bob, signers.owner]) {
+      let denied = false;
+      try {
+        await fhevm.userDecryptEuint(FhevmType.euint32, total, toolAddress, other);
+      } catch {
+        denied = true;
+      }
+      expect(denied, `${other.address} decrypted alice's contribution`).to.eq(true);
+    }
+  });
+
+  it("rejects unknown batches", async function () {
+    await expect(tool.getContribution(2, signers.alice.address, Metric.ExecutionTime)).to.be.revertedWithCustomError(
+      tool,
+      "InvalidBatch",
+    );
+  });
+});
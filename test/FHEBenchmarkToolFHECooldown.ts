@@ -0,0 +1,145 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FHEBenchmarkToolFHE } from "../types";
+import { Signers, deployBenchmarkTool, namedSigners, openBatch, skipUnlessMock } from "./helpers";
+
+describe("FHEBenchmarkToolFHE cooldowns", function () {
+  let signers: Signers<"owner" | "runner" | "alice" | "bob">;
+  let tool: FHEBenchmarkToolFHE;
+
+  before(async function () {
+    signers = await namedSigners("owner", "runner", "alice", "bob");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool } = await deployBenchmarkTool(signers.runner, signers.alice, signers.bob));
+    await openBatch(tool);
+    await openBatch(tool, "fheMul");
+  });
+
+  async function submit(provider: HardhatEthersSigner, executionTime = 100, batchId = 1) {
+    return tool.connect(provider).submitBenchmarkData(batchId, executionTime);
+  }
+
+  describe("global cooldowns", function () {
+    it("start at 60 seconds each", async function () {
+      expect(await tool.submissionCooldown()).to.eq(60);
+      expect(await tool.decryptionCooldown()).to.eq(60);
+    });
+
+    it("emit an event when changed", async function () {
+      await expect(tool.setSubmissionCooldown(5)).to.emit(tool, "SubmissionCooldownChanged").withArgs(60, 5);
+      await expect(tool.setDecryptionCooldown(600)).to.emit(tool, "DecryptionCooldownChanged").withArgs(60, 600);
+    });
+
+    it("reject zero", async function () {
+      await expect(tool.setSubmissionCooldown(0)).to.be.revertedWithCustomError(tool, "InvalidCooldown");
+      await expect(tool.setDecryptionCooldown(0)).to.be.revertedWithCustomError(tool, "InvalidCooldown");
+    });
+
+    it("require ADMIN_ROLE", async function () {
+      await expect(tool.connect(signers.alice).setDecryptionCooldown(5))
+        .to.be.revertedWithCustomError(tool, "MissingRole")
+        .withArgs(await tool.ADMIN_ROLE(), signers.alice.address);
+    });
+
+    it("space out a provider's submissions", async function () {
+      await submit(signers.alice);
+      await expect(submit(signers.alice, 100, 2)).to.be.revertedWithCustomError(tool, "CooldownActive");
+      await time.increase(60);
+      await expect(submit(signers.alice, 100, 2)).to.emit(tool, "DataSubmitted");
+    });
+
+    it("apply the submission and decryption cooldowns independently", async function () {
+      await tool.setSubmissionCooldown(1);
+      await submit(signers.alice);
+      await submit(signers.bob);
+      await tool.closeBatch(1);
+      await submit(signers.alice, 100, 2);
+      await submit(signers.bob, 100, 2);
+      await tool.closeBatch(2);
+
+      await tool.requestBenchmarkResultDecryption(1);
+      await expect(tool.requestBenchmarkResultDecryption(2)).to.be.revertedWithCustomError(tool, "CooldownActive");
+      await time.increase(60);
+      await expect(tool.requestBenchmarkResultDecryption(2)).to.emit(tool, "DecryptionRequested");
+      await fhevm.awaitDecryptionOracle();
+    });
+  });
+
+  describe("per-provider overrides", function () {
+    it("replace the global submission cooldown for that provider only", async function () {
+      await expect(tool.setProviderSubmissionCooldown(signers.alice.address, 5))
+        .to.emit(tool, "ProviderSubmissionCooldownSet")
+        .withArgs(signers.alice.address, 5);
+      expect(await tool.submissionCooldownOf(signers.alice.address)).to.eq(5);
+      expect(await tool.submissionCooldownOf(signers.bob.address)).to.eq(60);
+
+      await submit(signers.alice);
+      await submit(signers.bob);
+      await time.increase(5);
+      await expect(submit(signers.alice, 100, 2)).to.emit(tool, "DataSubmitted");
+      await expect(submit(signers.bob, 100, 2)).to.be.revertedWithCustomError(tool, "CooldownActive");
+    });
+
+    it("may be longer than the global cooldown", async function () {
+      await tool.setProviderSubmissionCooldown(signers.alice.address, 300);
+      await submit(signers.alice);
+      await time.increase(60);
+      await expect(submit(signers.alice, 100, 2)).to.be.revertedWithCustomError(tool, "CooldownActive");
+    });
+
+    it("fall back to the global cooldown when cleared", async function () {
+      await tool.setProviderSubmissionCooldown(signers.alice.address, 5);
+      await tool.setProviderSubmissionCooldown(signers.alice.address, 0);
+      expect(await tool.submissionCooldownOf(signers.alice.address)).to.eq(60);
+    });
+
+    it("reject the zero address", async function () {
+      await expect(tool.setProviderSubmissionCooldown(ethers.ZeroAddress, 5)).to.be.revertedWithCustomError(
+        tool,
+        "InvalidAddress",
+      );
+    });
+  });
+
+  describe("exempt runners", function () {
+    beforeEach(async function () {
+      await expect(tool.setCooldownExempt(signers.runner.address, true))
+        .to.emit(tool, "CooldownExemptionSet")
+        .withArgs(signers.runner.address, true);
+    });
+
+    it("submit back to back", async function () {
+      expect(await tool.submissionCooldownOf(signers.runner.address)).to.eq(0);
+      for (const executionTime of [100, 110, 95, 105]) {
+        await submit(signers.runner, executionTime);
+      }
+      expect((await tool.batches(1)).dataCount).to.eq(4);
+    });
+
+    it("take precedence over an override", async function () {
+      await tool.setProviderSubmissionCooldown(signers.runner.address, 300);
+      await submit(signers.runner);
+      await expect(submit(signers.runner)).to.emit(tool, "DataSubmitted");
+    });
+
+    it("are subject to the cooldown again once removed", async function () {
+      await expect(tool.setCooldownExempt(signers.runner.address, false))
+        .to.emit(tool, "CooldownExemptionSet")
+        .withArgs(signers.runner.address, false);
+      await submit(signers.runner);
+      await expect(submit(signers.runner)).to.be.revertedWithCustomError(tool, "CooldownActive");
+    });
+
+    it("reject the zero address", async function () {
+      await expect(tool.setCooldownExempt(ethers.ZeroAddress, true)).to.be.revertedWithCustomError(
+        tool,
+        "InvalidAddress",
+      );
+    });
+  });
+});
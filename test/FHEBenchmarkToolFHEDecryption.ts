@@ -0,0 +1,235 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import { revertReason } from "../src/benchmark/oracle";
+import { FHEBenchmarkToolFHE } from "../types";
+import {
+  Metric,
+  RequestStatus,
+  Signers,
+  deployBenchmarkTool,
+  namedSigners,
+  openBatch,
+  skipUnlessMock,
+} from "./helpers";
+
+const TIMEOUT = 3600;
+
+describe("FHEBenchmarkToolFHE decryption requests", function () {
+  let signers: Signers<"owner" | "alice" | "bob">;
+  let tool: FHEBenchmarkToolFHE;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool } = await deployBenchmarkTool(signers.alice, signers.bob));
+    await tool.setDecryptionTimeout(TIMEOUT);
+    await openBatch(tool);
+    await tool.connect(signers.alice).submitBenchmarkData(1, 120);
+    await tool.connect(signers.bob).submitBenchmarkData(1, 80);
+    await tool.closeBatch(1);
+  });
+
+  afterEach(async function () {
+    // The mock oracle reads every request since its last run at once; deliver (or drop) this test's requests here
+    // so an answer the contract rejects cannot abort a later test's awaitDecryptionOracle
+    await fhevm.awaitDecryptionOracle().catch(() => undefined);
+  });
+
+  async function request(metric = Metric.ExecutionTime) {
+    await tool.requestMetricDecryption(1, metric);
+    return tool.latestRequestIds(1, metric);
+  }
+
+  describe("status", function () {
+    it("tracks a new request as pending and outstanding", async function () {
+      const requestId = await request();
+      const ctx = await tool.decryptionContexts(requestId);
+      expect(ctx.status).to.eq(RequestStatus.Pending);
+      expect(ctx.requester).to.eq(signers.owner.address);
+      expect(ctx.requestedAt).to.eq(await time.latest());
+
+      const outstanding = await tool.getOutstandingRequests(1);
+      expect(outstanding.map((entry) => entry.requestId)).to.deep.eq([requestId]);
+      expect(outstanding[0].status).to.eq(RequestStatus.Pending);
+    });
+
+    it("marks a request fulfilled once the oracle answers", async function () {
+      const requestId = await request();
+      await fhevm.awaitDecryptionOracle();
+      expect(await tool.getDecryptionStatus(requestId)).to.eq(RequestStatus.Fulfilled);
+      expect(await tool.getOutstandingRequests(1)).to.deep.eq([]);
+    });
+
+    it("reports unanswered requests as expired after the timeout", async function () {
+      const requestId = await request();
+      await time.increase(TIMEOUT);
+      expect(await tool.getDecryptionStatus(requestId)).to.eq(RequestStatus.Expired);
+      expect((await tool.getOutstandingRequests(1))[0].status).to.eq(RequestStatus.Expired);
+    });
+
+    it("accepts a late answer until the request is retried", async function () {
+      const requestId = await request();
+      await time.increase(TIMEOUT);
+      await fhevm.awaitDecryptionOracle();
+      expect(await tool.getDecryptionStatus(requestId)).to.eq(RequestStatus.Fulfilled);
+      expect((await tool.getBatchResult(1, Metric.ExecutionTime)).total).to.eq(200);
+    });
+
+    it("lists only the batch's own requests", async function () {
+      await tool.setSubmissionCooldown(1);
+      await tool.setDecryptionCooldown(1);
+      await openBatch(tool, "fheMul");
+      await time.increase(1);
+      await tool.connect(signers.alice).submitBenchmarkData(2, 300);
+      await tool.connect(signers.bob).submitBenchmarkData(2, 500);
+      await tool.closeBatch(2);
+
+      const firstRequest = await request();
+      await time.increase(1);
+      await tool.requestBenchmarkResultDecryption(2);
+      const secondRequest = await tool.latestRequestIds(2, Metric.ExecutionTime);
+      expect((await tool.getOutstandingRequests(1)).map((entry) => entry.requestId)).to.deep.eq([firstRequest]);
+      expect((await tool.getOutstandingRequests(2)).map((entry) => entry.requestId)).to.deep.eq([secondRequest]);
+    });
+
+    it("rejects unknown batches", async function () {
+      await expect(tool.getOutstandingRequests(2)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+    });
+
+    it("refuses a second request while one is pending", async function () {
+      await request();
+      await time.increase(60);
+      await expect(request()).to.be.revertedWithCustomError(tool, "DecryptionPending");
+    });
+  });
+
+  describe("cancelDecryptionRequest", function () {
+    it("cancels a pending request", async function () {
+      const requestId = await request();
+      await expect(tool.cancelDecryptionRequest(requestId))
+        .to.emit(tool, "DecryptionCancelled")
+        .withArgs(requestId, 1, Metric.ExecutionTime);
+      expect(await tool.getDecryptionStatus(requestId)).to.eq(RequestStatus.Cancelled);
+      expect(await tool.getOutstandingRequests(1)).to.deep.eq([]);
+    });
+
+    it("rejects the oracle's answer to a cancelled request", async function () {
+      const requestId = await request();
+      await tool.cancelDecryptionRequest(requestId);
+      const rejection = await fhevm.awaitDecryptionOracle().then(
+        () => expect.fail("the oracle's answer was accepted"),
+        (error: unknown) => error,
+      );
+      expect(revertReason(tool.interface, rejection)).to.eq("RequestNotPending");
+      expect(await tool.getDecryptionStatus(requestId)).to.eq(RequestStatus.Cancelled);
+      await expect(tool.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(tool, "RequestNotPending");
+      expect((await tool.getBatchResult(1, Metric.ExecutionTime)).decrypted).to.eq(false);
+    });
+
+    it("keeps the requester's cooldown running", async function () {
+      const requestId = await request();
+      const requestedAt = await time.latest();
+      await tool.cancelDecryptionRequest(requestId);
+      expect(await tool.lastDecryptionRequestTime(signers.owner.address)).to.eq(requestedAt);
+      await expect(request()).to.be.revertedWithCustomError(tool, "CooldownActive");
+
+      await time.increase(60);
+      const newRequestId = await request();
+      expect(newRequestId).not.to.eq(requestId);
+      expect(await tool.getDecryptionStatus(newRequestId)).to.eq(RequestStatus.Pending);
+    });
+
+    it("only lets the requester or an admin cancel", async function () {
+      const role = await tool.DECRYPTION_REQUESTER_ROLE();
+      await tool.grantRole(role, signers.alice.address);
+      await tool.grantRole(role, signers.bob.address);
+      await tool.connect(signers.alice).requestMetricDecryption(1, Metric.ExecutionTime);
+      const requestId = await tool.latestRequestIds(1, Metric.ExecutionTime);
+
+      await expect(tool.connect(signers.bob).cancelDecryptionRequest(requestId)).to.be.revertedWithCustomError(
+        tool,
+        "NotRequester",
+      );
+      await expect(tool.cancelDecryptionRequest(requestId)).to.emit(tool, "DecryptionCancelled");
+      expect(await tool.getDecryptionStatus(requestId)).to.eq(RequestStatus.Cancelled);
+    });
+
+    it("only cancels pending requests", async function () {
+      const requestId = await request();
+      await fhevm.awaitDecryptionOracle();
+      await expect(tool.cancelDecryptionRequest(requestId)).to.be.revertedWithCustomError(tool, "RequestNotPending");
+      await expect(tool.cancelDecryptionRequest(requestId + 1n)).to.be.revertedWithCustomError(
+        tool,
+        "RequestNotPending",
+      );
+    });
+
+    it("lets an admin without DECRYPTION_REQUESTER_ROLE cancel", async function () {
+      const requestId = await request();
+      await tool.grantRole(await tool.ADMIN_ROLE(), signers.alice.address);
+      expect(await tool.hasRole(await tool.DECRYPTION_REQUESTER_ROLE(), signers.alice.address)).to.eq(false);
+
+      await expect(tool.connect(signers.alice).cancelDecryptionRequest(requestId)).to.emit(tool, "DecryptionCancelled");
+      expect(await tool.getDecryptionStatus(requestId)).to.eq(RequestStatus.Cancelled);
+    });
+
+    it("refuses accounts that are neither the requester nor an admin", async function () {
+      const requestId = await request();
+      await expect(tool.connect(signers.alice).cancelDecryptionRequest(requestId)).to.be.revertedWithCustomError(
+        tool,
+        "NotRequester",
+      );
+    });
+  });
+
+  describe("retryDecryptionRequest", function () {
+    it("waits for the timeout", async function () {
+      const requestId = await request();
+      await time.increase(TIMEOUT - 10);
+      await expect(tool.retryDecryptionRequest(requestId)).to.be.revertedWithCustomError(tool, "RequestNotExpired");
+    });
+
+    it("expires the old request and issues a new one", async function () {
+      const requestId = await request();
+      await time.increase(TIMEOUT);
+      await expect(tool.retryDecryptionRequest(requestId))
+        .to.emit(tool, "DecryptionExpired")
+        .withArgs(requestId, requestId + 1n, 1)
+        .and.to.emit(tool, "DecryptionRequested")
+        .withArgs(requestId + 1n, 1, Metric.ExecutionTime);
+
+      expect((await tool.decryptionContexts(requestId)).status).to.eq(RequestStatus.Expired);
+      expect(await tool.latestRequestIds(1, Metric.ExecutionTime)).to.eq(requestId + 1n);
+      expect((await tool.getOutstandingRequests(1)).map((entry) => entry.requestId)).to.deep.eq([requestId + 1n]);
+    });
+
+    it("rejects answers to the expired request", async function () {
+      const requestId = await request();
+      await time.increase(TIMEOUT);
+      await tool.retryDecryptionRequest(requestId);
+      await expect(tool.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(tool, "RequestNotPending");
+    });
+
+    it("only retries pending requests", async function () {
+      const requestId = await request();
+      await tool.cancelDecryptionRequest(requestId);
+      await time.increase(TIMEOUT);
+      await expect(tool.retryDecryptionRequest(requestId)).to.be.revertedWithCustomError(tool, "RequestNotPending");
+    });
+  });
+
+  describe("setDecryptionTimeout", function () {
+    it("updates the timeout", async function () {
+      await expect(tool.setDecryptionTimeout(60)).to.emit(tool, "DecryptionTimeoutChanged").withArgs(TIMEOUT, 60);
+      expect(await tool.decryptionTimeout()).to.eq(60);
+    });
+
+    it("rejects a zero timeout", async function () {
+      await expect(tool.setDecryptionTimeout(0)).to.be.revertedWithCustomError(tool, "InvalidTimeout");
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FHEBenchmarkToolFHE } from "../types";
+import { Metric, Signers, deployBenchmarkTool, namedSigners, openBatch, skipUnlessMock } from "./helpers";
+
+describe("FHEBenchmarkToolFHE encrypted submissions", function () {
+  let signers: Signers<"owner" | "alice" | "bob">;
+  let tool: FHEBenchmarkToolFHE;
+  let toolAddress: string;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool, toolAddress } = await deployBenchmarkTool(signers.alice, signers.bob));
+    await openBatch(tool);
+  });
+
+  async function encrypt(provider: HardhatEthersSigner, executionTime: number, contract = toolAddress) {
+    const { handles, inputProof } = await fhevm
+      .createEncryptedInput(contract, provider.address)
+      .add32(executionTime)
+      .encrypt();
+    return [handles[0], inputProof] as const;
+  }
+
+  it("aggregates encrypted execution times", async function () {
+    const submission = await encrypt(signers.alice, 1234);
+    const tx = await tool.connect(signers.alice).submitEncryptedBenchmarkData(1, ...submission);
+    await tool.connect(signers.bob).submitEncryptedBenchmarkData(1, ...(await encrypt(signers.bob, 766)));
+
+    // Only the handle and its proof travel in calldata
+    expect(tool.interface.decodeFunctionData("submitEncryptedBenchmarkData", tx.data)).to.deep.eq([
+      1n,
+      ethers.hexlify(submission[0]),
+      ethers.hexlify(submission[1]),
+    ]);
+
+    await tool.closeBatch(1);
+    await tool.requestBenchmarkResultDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+    const result = await tool.getBatchResult(1, Metric.ExecutionTime);
+    expect([result.dataCount, result.total, result.min, result.max]).to.deep.eq([2n, 2000n, 766n, 1234n]);
+  });
+
+  it("aggregates encrypted and plaintext submissions together", async function () {
+    await tool.connect(signers.alice).submitEncryptedBenchmarkData(1, ...(await encrypt(signers.alice, 500)));
+    await tool.connect(signers.bob).submitBenchmarkData(1, 300);
+
+    await tool.closeBatch(1);
+    await tool.requestBenchmarkResultDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+    const result = await tool.getBatchResult(1, Metric.ExecutionTime);
+    expect([result.total, result.min, result.max]).to.deep.eq([800n, 300n, 500n]);
+  });
+
+  // Hardhat cannot trace these reverts in the viaIR build and the FHEVM plugin then masks them, so simulate them
+  it("rejects inputs encrypted for another sender", async function () {
+    const aliceInput = await encrypt(signers.alice, 100);
+    await expect(tool.connect(signers.alice).submitEncryptedBenchmarkData.staticCall(1, ...aliceInput)).to.not.be
+      .reverted;
+    await expect(tool.connect(signers.bob).submitEncryptedBenchmarkData.staticCall(1, ...aliceInput)).to.be.reverted;
+  });
+
+  it("rejects inputs encrypted for another contract", async function () {
+    const elsewhere = await encrypt(signers.alice, 100, signers.owner.address);
+    await expect(tool.connect(signers.alice).submitEncryptedBenchmarkData.staticCall(1, ...elsewhere)).to.be.reverted;
+  });
+
+  it("rejects a handle its proof does not cover", async function () {
+    const [handle] = await encrypt(signers.alice, 100);
+    const [, otherProof] = await encrypt(signers.alice, 200);
+    await expect(tool.connect(signers.alice).submitEncryptedBenchmarkData.staticCall(1, handle, otherProof)).to.be
+      .reverted;
+  });
+});
@@ -0,0 +1,104 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import { FHEBenchmarkToolFHE } from "../types";
+import { Metric, Signers, deployBenchmarkTool, namedSigners, openBatch, skipUnlessMock } from "./helpers";
+
+const METRICS = [Metric.ExecutionTime, Metric.MemoryUsage, Metric.GasUsed, Metric.CiphertextSize];
+
+describe("FHEBenchmarkToolFHE metrics", function () {
+  let signers: Signers<"owner" | "alice" | "bob">;
+  let tool: FHEBenchmarkToolFHE;
+  let toolAddress: string;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool, toolAddress } = await deployBenchmarkTool(signers.alice, signers.bob));
+    await openBatch(tool);
+  });
+
+  /** Submits execution time, memory usage, gas used and ciphertext size under one proof. */
+  async function submitMetrics(provider: HardhatEthersSigner, values: number[]) {
+    const input = fhevm.createEncryptedInput(toolAddress, provider.address);
+    values.forEach((value) => input.add32(value));
+    const { handles, inputProof } = await input.encrypt();
+    return tool
+      .connect(provider)
+      .submitEncryptedBenchmarkMetrics(1, handles[0], handles[1], handles[2], handles[3], inputProof);
+  }
+
+  async function decryptMetric(metric: Metric) {
+    await tool.requestMetricDecryption(1, metric);
+    await fhevm.awaitDecryptionOracle();
+    // Each request starts the requester's decryption cooldown
+    await time.increase(60);
+    return tool.getBatchResult(1, metric);
+  }
+
+  it("aggregates each metric separately", async function () {
+    await submitMetrics(signers.alice, [5000, 2048, 90000, 64]);
+    await submitMetrics(signers.bob, [3000, 1024, 70000, 128]);
+    await tool.closeBatch(1);
+
+    const results = [];
+    for (const metric of METRICS) {
+      results.push(await decryptMetric(metric));
+    }
+    expect(results.map((result) => [result.metric, result.total, result.min, result.max])).to.deep.eq([
+      [BigInt(Metric.ExecutionTime), 8000n, 3000n, 5000n],
+      [BigInt(Metric.MemoryUsage), 3072n, 1024n, 2048n],
+      [BigInt(Metric.GasUsed), 160000n, 70000n, 90000n],
+      [BigInt(Metric.CiphertextSize), 192n, 64n, 128n],
+    ]);
+    expect(results.every((result) => result.dataCount === 2n)).to.eq(true);
+  });
+
+  it("decrypts only the requested metric", async function () {
+    await submitMetrics(signers.alice, [5000, 2048, 90000, 64]);
+    await submitMetrics(signers.bob, [3000, 1024, 70000, 128]);
+    await tool.closeBatch(1);
+
+    await tool.requestMetricDecryption(1, Metric.GasUsed);
+    const requestId = await tool.latestRequestIds(1, Metric.GasUsed);
+    expect((await tool.decryptionContexts(requestId)).metric).to.eq(Metric.GasUsed);
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await tool.getBatchResult(1, Metric.GasUsed)).decrypted).to.eq(true);
+    for (const metric of [Metric.ExecutionTime, Metric.MemoryUsage, Metric.CiphertextSize]) {
+      expect((await tool.getBatchResult(1, metric)).decrypted).to.eq(false);
+    }
+  });
+
+  it("only feeds the execution time aggregate from single-metric submissions", async function () {
+    await tool.connect(signers.alice).submitBenchmarkData(1, 120);
+    await submitMetrics(signers.bob, [80, 512, 40000, 64]);
+    await tool.closeBatch(1);
+
+    expect((await decryptMetric(Metric.ExecutionTime)).dataCount).to.eq(2);
+    // Only bob carried the other metrics, which leaves them below the two-provider minimum
+    await expect(tool.requestMetricDecryption(1, Metric.MemoryUsage)).to.be.revertedWithCustomError(
+      tool,
+      "InsufficientData",
+    );
+  });
+
+  it("keeps one pending request per metric", async function () {
+    await submitMetrics(signers.alice, [5000, 2048, 90000, 64]);
+    await submitMetrics(signers.bob, [3000, 1024, 70000, 128]);
+    await tool.closeBatch(1);
+
+    await tool.requestMetricDecryption(1, Metric.MemoryUsage);
+    await time.increase(60);
+    await expect(tool.requestMetricDecryption(1, Metric.MemoryUsage)).to.be.revertedWithCustomError(
+      tool,
+      "DecryptionPending",
+    );
+    await expect(tool.requestMetricDecryption(1, Metric.CiphertextSize)).to.emit(tool, "DecryptionRequested");
+    await fhevm.awaitDecryptionOracle();
+  });
+});
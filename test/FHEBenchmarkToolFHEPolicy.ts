@@ -0,0 +1,279 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FHEBenchmarkToolFHE } from "../types";
+import {
+  CloseReason,
+  Metric,
+  Signers,
+  deployBenchmarkTool,
+  namedSigners,
+  openBatch,
+  skipUnlessMock,
+  tag,
+} from "./helpers";
+
+describe("FHEBenchmarkToolFHE batch policies", function () {
+  let signers: Signers<"owner" | "alice" | "bob" | "carol">;
+  let tool: FHEBenchmarkToolFHE;
+  let toolAddress: string;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob", "carol");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool, toolAddress } = await deployBenchmarkTool(signers.alice, signers.bob, signers.carol));
+    await openBatch(tool);
+  });
+
+  async function submit(provider: HardhatEthersSigner, executionTime: number, batchId = 1) {
+    return tool.connect(provider).submitBenchmarkData(batchId, executionTime);
+  }
+
+  describe("minimum provider count", function () {
+    it("requires three providers by default", async function () {
+      const factory = await ethers.getContractFactory("FHEBenchmarkToolFHE");
+      const fresh = (await factory.deploy()) as FHEBenchmarkToolFHE;
+      expect(await fresh.defaultMinProviderCount()).to.eq(3);
+    });
+
+    it("applies the default minimum to new batches", async function () {
+      await expect(tool.openBatch(tag("TFHE"), tag("fheMul"), tag("euint32"), tag("default")))
+        .to.emit(tool, "BatchPolicySet")
+        .withArgs(2, 2, 0, 0);
+      const policy = await tool.batchPolicies(2);
+      expect(policy.minProviderCount).to.eq(2);
+      expect(policy.maxDataCount).to.eq(0);
+      expect(policy.deadline).to.eq(0);
+    });
+
+    it("changes the default minimum", async function () {
+      await expect(tool.setDefaultMinProviderCount(5)).to.emit(tool, "DefaultMinProviderCountChanged").withArgs(2, 5);
+      await openBatch(tool, "fheMul");
+      expect((await tool.batchPolicies(2)).minProviderCount).to.eq(5);
+    });
+
+    it("rejects a zero default minimum", async function () {
+      await expect(tool.setDefaultMinProviderCount(0)).to.be.revertedWithCustomError(tool, "InvalidPolicy");
+    });
+
+    it("only lets admins change the default minimum", async function () {
+      await expect(tool.connect(signers.alice).setDefaultMinProviderCount(3))
+        .to.be.revertedWithCustomError(tool, "MissingRole")
+        .withArgs(await tool.ADMIN_ROLE(), signers.alice.address);
+    });
+
+    it("refuses to decrypt a batch below the minimum", async function () {
+      await submit(signers.alice, 120);
+      await tool.closeBatch(1);
+      await expect(tool.requestBenchmarkResultDecryption(1)).to.be.revertedWithCustomError(tool, "InsufficientData");
+    });
+
+    it("counts each provider once", async function () {
+      await tool.setSubmissionCooldown(1);
+      await submit(signers.alice, 120);
+      await time.increase(1);
+      await submit(signers.alice, 80);
+      await tool.closeBatch(1);
+      await expect(tool.requestBenchmarkResultDecryption(1)).to.be.revertedWithCustomError(tool, "InsufficientData");
+    });
+
+    it("counts a provider once across every kind of submission", async function () {
+      await tool.setSubmissionCooldown(1);
+      const input = fhevm.createEncryptedInput(toolAddress, signers.alice.address);
+      const { handles, inputProof } = await input
+        .add32(100)
+        .add32(110)
+        .add32(2048)
+        .add32(90000)
+        .add32(64)
+        .add32(130)
+        .encrypt();
+      const asAlice = tool.connect(signers.alice);
+      await submit(signers.alice, 120);
+      await time.increase(1);
+      await asAlice.submitEncryptedBenchmarkData(1, handles[0], inputProof);
+      await time.increase(1);
+      await asAlice.submitEncryptedBenchmarkMetrics(1, handles[1], handles[2], handles[3], handles[4], inputProof);
+      await time.increase(1);
+      await asAlice.submitBenchmarkDataBatch(1, [handles[5]], inputProof);
+      await tool.closeBatch(1);
+      await expect(tool.requestBenchmarkResultDecryption(1)).to.be.revertedWithCustomError(tool, "InsufficientData");
+    });
+
+    it("counts providers per metric", async function () {
+      // Plaintext submissions only carry the execution time
+      await submit(signers.alice, 120);
+      await submit(signers.bob, 80);
+      await tool.closeBatch(1);
+      await expect(tool.requestMetricDecryption(1, Metric.MemoryUsage)).to.be.revertedWithCustomError(
+        tool,
+        "InsufficientData",
+      );
+      await expect(tool.requestMetricDecryption(1, Metric.ExecutionTime)).to.emit(tool, "DecryptionRequested");
+    });
+
+    it("decrypts a batch that reached the minimum", async function () {
+      await submit(signers.alice, 120);
+      await submit(signers.bob, 80);
+      await tool.closeBatch(1);
+      await tool.requestBenchmarkResultDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const result = await tool.getBatchResult(1, Metric.ExecutionTime);
+      expect(result.decrypted).to.eq(true);
+      expect(result.dataCount).to.eq(2);
+      expect(result.total).to.eq(200);
+    });
+  });
+
+  describe("setBatchPolicy", function () {
+    it("stores the policy and emits BatchPolicySet", async function () {
+      const deadline = (await time.latest()) + 3600;
+      await expect(tool.setBatchPolicy(1, 3, 10, deadline))
+        .to.emit(tool, "BatchPolicySet")
+        .withArgs(1, 3, 10, deadline);
+      const policy = await tool.batchPolicies(1);
+      expect(policy.minProviderCount).to.eq(3);
+      expect(policy.maxDataCount).to.eq(10);
+      expect(policy.deadline).to.eq(deadline);
+    });
+
+    it("only lets batch operators set a policy", async function () {
+      await expect(tool.connect(signers.alice).setBatchPolicy(1, 2, 0, 0))
+        .to.be.revertedWithCustomError(tool, "MissingRole")
+        .withArgs(await tool.BATCH_OPERATOR_ROLE(), signers.alice.address);
+    });
+
+    it("rejects unknown batches", async function () {
+      await expect(tool.setBatchPolicy(0, 2, 0, 0)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+      await expect(tool.setBatchPolicy(2, 2, 0, 0)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+    });
+
+    it("rejects closed batches", async function () {
+      await tool.closeBatch(1);
+      await expect(tool.setBatchPolicy(1, 2, 0, 0)).to.be.revertedWithCustomError(tool, "BatchNotActive");
+    });
+
+    it("rejects batches past their deadline", async function () {
+      await tool.setBatchPolicy(1, 2, 0, (await time.latest()) + 60);
+      await time.increase(61);
+      await expect(tool.setBatchPolicy(1, 2, 0, 0)).to.be.revertedWithCustomError(tool, "BatchNotActive");
+    });
+
+    it("rejects a zero minimum", async function () {
+      await expect(tool.setBatchPolicy(1, 0, 0, 0)).to.be.revertedWithCustomError(tool, "InvalidPolicy");
+    });
+
+    it("rejects a submission limit below the minimum", async function () {
+      await expect(tool.setBatchPolicy(1, 3, 2, 0)).to.be.revertedWithCustomError(tool, "InvalidPolicy");
+    });
+
+    it("rejects a submission limit the batch already reached", async function () {
+      await submit(signers.alice, 120);
+      await submit(signers.bob, 80);
+      await expect(tool.setBatchPolicy(1, 1, 2, 0)).to.be.revertedWithCustomError(tool, "InvalidPolicy");
+    });
+
+    it("rejects a deadline in the past", async function () {
+      const now = await time.latest();
+      await expect(tool.setBatchPolicy(1, 2, 0, now)).to.be.revertedWithCustomError(tool, "InvalidPolicy");
+    });
+  });
+
+  describe("auto-close after N submissions", function () {
+    beforeEach(async function () {
+      await tool.setBatchPolicy(1, 2, 2, 0);
+    });
+
+    it("stays open below the limit", async function () {
+      await expect(submit(signers.alice, 120)).not.to.emit(tool, "BatchAutoClosed");
+      expect((await tool.batches(1)).active).to.eq(true);
+    });
+
+    it("closes the batch on the submission that reaches the limit", async function () {
+      await submit(signers.alice, 120);
+      await expect(submit(signers.bob, 80))
+        .to.emit(tool, "BatchAutoClosed")
+        .withArgs(1, CloseReason.SubmissionLimit, 2)
+        .and.to.emit(tool, "BatchClosed")
+        .withArgs(1, 2);
+      expect((await tool.batches(1)).active).to.eq(false);
+      expect(await tool.getOpenBatchIds()).to.deep.eq([]);
+    });
+
+    it("rejects submissions once closed", async function () {
+      await submit(signers.alice, 120);
+      await submit(signers.bob, 80);
+      await expect(submit(signers.carol, 100)).to.be.revertedWithCustomError(tool, "BatchNotActive");
+    });
+
+    it("can be decrypted right away", async function () {
+      await submit(signers.alice, 120);
+      await submit(signers.bob, 80);
+      await tool.requestBenchmarkResultDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+      expect((await tool.getBatchResult(1, Metric.ExecutionTime)).average).to.eq(100);
+    });
+  });
+
+  describe("auto-close after a deadline", function () {
+    let deadline: number;
+
+    beforeEach(async function () {
+      deadline = (await time.latest()) + 3600;
+      await tool.setBatchPolicy(1, 2, 0, deadline);
+      await submit(signers.alice, 120);
+      await submit(signers.bob, 80);
+    });
+
+    it("accepts submissions before the deadline", async function () {
+      await expect(submit(signers.carol, 100)).to.emit(tool, "DataSubmitted").withArgs(signers.carol.address, 1, 3);
+    });
+
+    it("cannot be decrypted before the deadline", async function () {
+      await expect(tool.requestBenchmarkResultDecryption(1)).to.be.revertedWithCustomError(tool, "InvalidBatch");
+    });
+
+    it("rejects submissions at the deadline", async function () {
+      await time.setNextBlockTimestamp(deadline);
+      await expect(submit(signers.carol, 100)).to.be.revertedWithCustomError(tool, "BatchDeadlinePassed");
+    });
+
+    it("drops out of the open batches after the deadline", async function () {
+      expect(await tool.getOpenBatchIds()).to.deep.eq([1n]);
+      await time.increaseTo(deadline);
+      expect(await tool.getOpenBatchIds()).to.deep.eq([]);
+    });
+
+    it("closes the batch when decryption is requested after the deadline", async function () {
+      await time.increaseTo(deadline);
+      await expect(tool.requestBenchmarkResultDecryption(1))
+        .to.emit(tool, "BatchAutoClosed")
+        .withArgs(1, CloseReason.Deadline, 2)
+        .and.to.emit(tool, "DecryptionRequested");
+      expect((await tool.batches(1)).active).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+      expect((await tool.getBatchResult(1, Metric.ExecutionTime)).total).to.eq(200);
+    });
+
+    it("still enforces the minimum after the deadline", async function () {
+      await openBatch(tool, "fheMul");
+      await tool.setBatchPolicy(2, 2, 0, deadline);
+      await time.increase(60);
+      await submit(signers.carol, 100, 2);
+      await time.increaseTo(deadline);
+      await expect(tool.requestBenchmarkResultDecryption(2)).to.be.revertedWithCustomError(tool, "InsufficientData");
+    });
+
+    it("leaves manually closed batches without an auto-close event", async function () {
+      await tool.closeBatch(1);
+      await time.increaseTo(deadline);
+      await expect(tool.requestBenchmarkResultDecryption(1)).not.to.emit(tool, "BatchAutoClosed");
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { fhevm } from "hardhat";
+import { FHEBenchmarkToolFHE } from "../types";
+import { Metric, Signers, deployBenchmarkTool, namedSigners, openBatch, skipUnlessMock } from "./helpers";
+
+describe("FHEBenchmarkToolFHE batch results", function () {
+  let signers: Signers<"owner" | "alice" | "bob">;
+  let tool: FHEBenchmarkToolFHE;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool } = await deployBenchmarkTool(signers.alice, signers.bob));
+  });
+
+  async function submit(provider: HardhatEthersSigner, executionTime: number, batchId: number) {
+    return tool.connect(provider).submitBenchmarkData(batchId, executionTime);
+  }
+
+  /** Opens a batch with one submission from each provider, then closes and decrypts it. */
+  async function decryptedBatch(aliceTime: number, bobTime: number) {
+    const batchId = await openBatch(tool);
+    await submit(signers.alice, aliceTime, batchId);
+    await submit(signers.bob, bobTime, batchId);
+    await tool.closeBatch(batchId);
+    await tool.requestBenchmarkResultDecryption(batchId);
+    await fhevm.awaitDecryptionOracle();
+    // Let the next batch's submissions and request through the cooldowns
+    await time.increase(60);
+    return batchId;
+  }
+
+  it("reports an empty, undecrypted result until the oracle answers", async function () {
+    const batchId = await openBatch(tool);
+    const result = await tool.getBatchResult(batchId, Metric.ExecutionTime);
+    expect(result.decrypted).to.eq(false);
+    expect([result.dataCount, result.total, result.min, result.max, result.average, result.decryptedAt]).to.deep.eq([
+      0n,
+      0n,
+      0n,
+      0n,
+      0n,
+      0n,
+    ]);
+  });
+
+  it("rounds the average down", async function () {
+    const batchId = await decryptedBatch(100, 51);
+    const result = await tool.getBatchResult(batchId, Metric.ExecutionTime);
+    expect(result.total).to.eq(151);
+    expect(result.average).to.eq(75);
+  });
+
+  it("keeps a decrypted result while later batches fill up", async function () {
+    const first = await decryptedBatch(120, 80);
+    const before = await tool.getBatchResult(first, Metric.ExecutionTime);
+
+    const second = await openBatch(tool);
+    await submit(signers.alice, 5000, second);
+    await submit(signers.bob, 7000, second);
+
+    expect(await tool.getBatchResult(first, Metric.ExecutionTime)).to.deep.eq(before);
+    expect(before.batchId).to.eq(first);
+    expect(before.dataCount).to.eq(2);
+  });
+
+  it("returns results in batch order", async function () {
+    await decryptedBatch(120, 80);
+    await decryptedBatch(300, 500);
+    await openBatch(tool);
+
+    const results = await tool.getBatchResults(1, 3, Metric.ExecutionTime);
+    expect(results.map((result) => [result.batchId, result.decrypted, result.average])).to.deep.eq([
+      [1n, true, 100n],
+      [2n, true, 400n],
+      [0n, false, 0n],
+    ]);
+    expect(await tool.getBatchResults(2, 2, Metric.ExecutionTime)).to.deep.eq([results[1]]);
+  });
+});
@@ -0,0 +1,222 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { FHEBenchmarkToolFHE } from "../types";
+import { Signers, deployBenchmarkTool, namedSigners, skipUnlessMock, tag } from "./helpers";
+
+type Roles = {
+  admin: string;
+  operator: string;
+  requester: string;
+  pauser: string;
+};
+
+async function roleIds(tool: FHEBenchmarkToolFHE): Promise<Roles> {
+  return {
+    admin: await tool.ADMIN_ROLE(),
+    operator: await tool.BATCH_OPERATOR_ROLE(),
+    requester: await tool.DECRYPTION_REQUESTER_ROLE(),
+    pauser: await tool.PAUSER_ROLE(),
+  };
+}
+
+describe("FHEBenchmarkToolFHE roles", function () {
+  let signers: Signers<"owner" | "admin" | "operator" | "requester" | "pauser" | "provider">;
+  let tool: FHEBenchmarkToolFHE;
+  let roles: Roles;
+
+  before(async function () {
+    signers = await namedSigners("owner", "admin", "operator", "requester", "pauser", "provider");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool } = await deployBenchmarkTool());
+    roles = await roleIds(tool);
+  });
+
+  describe("ownership", function () {
+    it("grants every role to the deployer", async function () {
+      for (const role of Object.values(roles)) {
+        expect(await tool.hasRole(role, signers.owner.address)).to.eq(true);
+      }
+    });
+
+    it("transfers ownership in two steps", async function () {
+      await expect(tool.transferOwnership(signers.admin.address))
+        .to.emit(tool, "OwnershipTransferStarted")
+        .withArgs(signers.owner.address, signers.admin.address);
+      expect(await tool.owner()).to.eq(signers.owner.address);
+      expect(await tool.pendingOwner()).to.eq(signers.admin.address);
+
+      await expect(tool.connect(signers.admin).acceptOwnership())
+        .to.emit(tool, "OwnershipTransferred")
+        .withArgs(signers.owner.address, signers.admin.address);
+      expect(await tool.owner()).to.eq(signers.admin.address);
+      expect(await tool.pendingOwner()).to.eq(ethers.ZeroAddress);
+    });
+
+    it("hands the previous owner's roles to the new owner", async function () {
+      await tool.renounceRole(roles.pauser);
+      await tool.transferOwnership(signers.admin.address);
+
+      await expect(tool.connect(signers.admin).acceptOwnership())
+        .to.emit(tool, "RoleGranted")
+        .withArgs(roles.admin, signers.admin.address, signers.admin.address)
+        .and.to.emit(tool, "RoleRevoked")
+        .withArgs(roles.admin, signers.owner.address, signers.admin.address);
+      for (const role of [roles.admin, roles.operator, roles.requester]) {
+        expect(await tool.hasRole(role, signers.admin.address)).to.eq(true);
+        expect(await tool.hasRole(role, signers.owner.address)).to.eq(false);
+      }
+      // Only roles the previous owner still held move across
+      expect(await tool.hasRole(roles.pauser, signers.admin.address)).to.eq(false);
+
+      await expect(tool.grantRole.staticCall(roles.admin, signers.operator.address)).to.be.revertedWithCustomError(
+        tool,
+        "NotOwner",
+      );
+      await expect(tool.connect(signers.admin).grantRole(roles.pauser, signers.pauser.address)).to.emit(
+        tool,
+        "RoleGranted",
+      );
+    });
+
+    it("keeps roles granted to others across the handover", async function () {
+      await tool.grantRole(roles.operator, signers.operator.address);
+      await tool.transferOwnership(signers.admin.address);
+      await tool.connect(signers.admin).acceptOwnership();
+      expect(await tool.hasRole(roles.operator, signers.operator.address)).to.eq(true);
+    });
+
+    it("rejects the zero address", async function () {
+      await expect(tool.transferOwnership(ethers.ZeroAddress)).to.be.revertedWithCustomError(tool, "InvalidAddress");
+    });
+
+    it("only lets the owner start a transfer", async function () {
+      // Hardhat cannot trace this revert in the viaIR build and the FHEVM plugin then masks it, so simulate the call
+      await expect(
+        tool.connect(signers.admin).transferOwnership.staticCall(signers.admin.address),
+      ).to.be.revertedWithCustomError(tool, "NotOwner");
+    });
+
+    it("only lets the pending owner accept", async function () {
+      await tool.transferOwnership(signers.admin.address);
+      await expect(tool.connect(signers.operator).acceptOwnership()).to.be.revertedWithCustomError(
+        tool,
+        "NotPendingOwner",
+      );
+    });
+  });
+
+  describe("role management", function () {
+    it("lets the owner grant and revoke ADMIN_ROLE", async function () {
+      await expect(tool.grantRole(roles.admin, signers.admin.address))
+        .to.emit(tool, "RoleGranted")
+        .withArgs(roles.admin, signers.admin.address, signers.owner.address);
+      await expect(tool.revokeRole(roles.admin, signers.admin.address))
+        .to.emit(tool, "RoleRevoked")
+        .withArgs(roles.admin, signers.admin.address, signers.owner.address);
+      expect(await tool.hasRole(roles.admin, signers.admin.address)).to.eq(false);
+    });
+
+    it("does not let admins manage ADMIN_ROLE", async function () {
+      await tool.grantRole(roles.admin, signers.admin.address);
+      await expect(
+        tool.connect(signers.admin).grantRole(roles.admin, signers.operator.address),
+      ).to.be.revertedWithCustomError(tool, "NotOwner");
+    });
+
+    it("lets admins manage the operational roles", async function () {
+      await tool.grantRole(roles.admin, signers.admin.address);
+      await expect(tool.connect(signers.admin).grantRole(roles.operator, signers.operator.address))
+        .to.emit(tool, "RoleGranted")
+        .withArgs(roles.operator, signers.operator.address, signers.admin.address);
+      await expect(tool.connect(signers.admin).revokeRole(roles.operator, signers.operator.address))
+        .to.emit(tool, "RoleRevoked")
+        .withArgs(roles.operator, signers.operator.address, signers.admin.address);
+    });
+
+    it("requires ADMIN_ROLE for the operational roles", async function () {
+      await expect(tool.connect(signers.operator).grantRole(roles.pauser, signers.operator.address))
+        .to.be.revertedWithCustomError(tool, "MissingRole")
+        .withArgs(roles.admin, signers.operator.address);
+    });
+
+    it("rejects unknown roles and the zero address", async function () {
+      await expect(tool.grantRole(ethers.id("UNKNOWN_ROLE"), signers.admin.address)).to.be.revertedWithCustomError(
+        tool,
+        "InvalidRole",
+      );
+      await expect(tool.grantRole(roles.pauser, ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        tool,
+        "InvalidAddress",
+      );
+    });
+
+    it("does not emit for no-op changes", async function () {
+      await expect(tool.grantRole(roles.pauser, signers.owner.address)).not.to.emit(tool, "RoleGranted");
+      await expect(tool.revokeRole(roles.pauser, signers.pauser.address)).not.to.emit(tool, "RoleRevoked");
+    });
+
+    it("lets accounts renounce their own roles", async function () {
+      await expect(tool.renounceRole(roles.pauser))
+        .to.emit(tool, "RoleRevoked")
+        .withArgs(roles.pauser, signers.owner.address, signers.owner.address);
+      await expect(tool.pause()).to.be.revertedWithCustomError(tool, "MissingRole");
+    });
+  });
+
+  describe("duties", function () {
+    beforeEach(async function () {
+      await tool.grantRole(roles.admin, signers.admin.address);
+      await tool.grantRole(roles.operator, signers.operator.address);
+      await tool.grantRole(roles.requester, signers.requester.address);
+      await tool.grantRole(roles.pauser, signers.pauser.address);
+    });
+
+    it("lets admins manage providers and settings", async function () {
+      await expect(tool.connect(signers.admin).addProvider(signers.provider.address)).to.emit(tool, "ProviderAdded");
+      await expect(tool.connect(signers.admin).setSubmissionCooldown(30)).to.emit(
+        tool,
+        "SubmissionCooldownChanged",
+      );
+      await expect(tool.connect(signers.operator).addProvider.staticCall(signers.provider.address))
+        .to.be.revertedWithCustomError(tool, "MissingRole")
+        .withArgs(roles.admin, signers.operator.address);
+    });
+
+    it("lets batch operators open and close batches", async function () {
+      await expect(
+        tool.connect(signers.operator).openBatch(tag("TFHE"), tag("fheAdd"), tag("euint32"), tag("default")),
+      ).to.emit(tool, "BatchOpened");
+      await expect(tool.connect(signers.admin).closeBatch(1))
+        .to.be.revertedWithCustomError(tool, "MissingRole")
+        .withArgs(roles.operator, signers.admin.address);
+      await expect(tool.connect(signers.operator).closeBatch(1)).to.emit(tool, "BatchClosed");
+    });
+
+    it("lets decryption requesters request decryption", async function () {
+      await tool.connect(signers.admin).addProvider(signers.provider.address);
+      await tool.connect(signers.admin).setDefaultMinProviderCount(1);
+      await tool.connect(signers.operator).openBatch(tag("TFHE"), tag("fheAdd"), tag("euint32"), tag("default"));
+      await tool.connect(signers.provider).submitBenchmarkData(1, 100);
+      await tool.connect(signers.operator).closeBatch(1);
+
+      await expect(tool.connect(signers.operator).requestBenchmarkResultDecryption(1))
+        .to.be.revertedWithCustomError(tool, "MissingRole")
+        .withArgs(roles.requester, signers.operator.address);
+      await expect(tool.connect(signers.requester).requestBenchmarkResultDecryption(1)).to.emit(
+        tool,
+        "DecryptionRequested",
+      );
+    });
+
+    it("lets pausers pause and unpause", async function () {
+      await expect(tool.connect(signers.pauser).pause()).to.emit(tool, "Paused").withArgs(signers.pauser.address);
+      await expect(tool.connect(signers.admin).unpause())
+        .to.be.revertedWithCustomError(tool, "MissingRole")
+        .withArgs(roles.pauser, signers.admin.address);
+      await expect(tool.connect(signers.pauser).unpause()).to.emit(tool, "Unpaused");
+    });
+  });
+});
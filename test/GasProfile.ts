@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import hre from "hardhat";
+
+import { runGasProfile } from "../src/benchmark/gasProfile";
+import type { GasProfile } from "../src/benchmark/types";
+import { FHEBenchmarkToolFHE__factory } from "../types";
+import { CsrFeedbackFHE__factory } from "../types/factories/contracts/CsrFeedbackFHE__factory";
+import { CuratedListsFHE__factory } from "../types/factories/contracts/CuratedListsFHE__factory";
+import { FHEPowerMaintenance__factory } from "../types/factories/contracts/FHEPowerMaintenance__factory";
+import { FedClusterFHE__factory } from "../types/factories/contracts/FedClusterFHE__factory";
+import { SecureFederatedDatabase__factory } from "../types/factories/contracts/SecureFederatedDatabase__factory";
+import { VeriIdWalletFHE__factory } from "../types/factories/contracts/VeriIdWalletFHE__factory";
+import { VeterinaryFHERecordNetwork__factory } from "../types/factories/contracts/VeterinaryFHERecordNetwork__factory";
+
+const PROFILED_CONTRACTS = {
+  FHEBenchmarkToolFHE: FHEBenchmarkToolFHE__factory,
+  FedClusterFHE: FedClusterFHE__factory,
+  CuratedListsFHE: CuratedListsFHE__factory,
+  VeriIdWalletFHE: VeriIdWalletFHE__factory,
+  CsrFeedbackFHE: CsrFeedbackFHE__factory,
+  FHEPowerMaintenance: FHEPowerMaintenance__factory,
+  SecureFederatedDatabase: SecureFederatedDatabase__factory,
+  VeterinaryFHERecordNetwork: VeterinaryFHERecordNetwork__factory,
+};
+
+describe("gas profile", function () {
+  let profile: GasProfile;
+
+  before(async function () {
+    if (!hre.fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    profile = await runGasProfile(hre);
+  });
+
+  it("profiles every contract", async function () {
+    expect(profile.contracts.map((contract) => contract.contract)).to.deep.eq(Object.keys(PROFILED_CONTRACTS));
+    for (const contract of profile.contracts) {
+      expect(contract.deploymentGas, contract.contract).to.be.greaterThan(0);
+    }
+  });
+
+  it("accounts for every public state-changing function as measured or unmeasured", async function () {
+    for (const contract of profile.contracts) {
+      const expected = new Set<string>();
+      PROFILED_CONTRACTS[contract.contract as keyof typeof PROFILED_CONTRACTS]
+        .createInterface()
+        .forEachFunction((fragment) => {
+          if (!fragment.constant) expected.add(fragment.name);
+        });
+      const reported = [...contract.functions, ...contract.unmeasured].map((fn) => fn.function);
+      expect(reported.sort(), contract.contract).to.deep.eq([...expected].sort());
+      for (const fn of contract.unmeasured) {
+        expect(fn.reason, `${contract.contract}.${fn.function}`).not.to.eq("not called by the scenario");
+      }
+    }
+  });
+
+  it("only lists functions with a successful call as measured", async function () {
+    for (const contract of profile.contracts) {
+      for (const fn of contract.functions) {
+        expect(fn.calls, `${contract.contract}.${fn.function}`).to.be.greaterThan(0);
+      }
+    }
+  });
+
+  it("leaves callbacks unmeasured when no decryption request reached the oracle", async function () {
+    const csrFeedback = profile.contracts.find((contract) => contract.contract === "CsrFeedbackFHE")!;
+    expect(csrFeedback.functions.map((fn) => fn.function)).not.to.include("decryptScoreCount");
+    expect(csrFeedback.unmeasured.find((fn) => fn.function === "decryptScoreCount")?.reason).to.eq(
+      "never called back: no decryption request reached the oracle",
+    );
+  });
+
+  it("measures the typechain-only contracts' decryption requests and callbacks", async function () {
+    const measured = (name: string) =>
+      profile.contracts.find((contract) => contract.contract === name)!.functions.map((fn) => fn.function);
+    expect(measured("VeriIdWalletFHE")).to.include.members(["generateProof", "handleProofVerification"]);
+    expect(measured("CsrFeedbackFHE")).to.include("requestFeedbackDecryption");
+    expect(measured("FedClusterFHE")).to.include("requestFederatedClustering");
+  });
+
+  it("only sends calls keyed by a revealed value once a callback revealed it", async function () {
+    const csrFeedback = profile.contracts.find((contract) => contract.contract === "CsrFeedbackFHE")!;
+    expect(csrFeedback.unmeasured.find((fn) => fn.function === "requestScoreCountDecryption")?.reason).to.eq(
+      "needs a key revealed by decryptFeedback, which never succeeded",
+    );
+  });
+
+  it("measures FHEBenchmarkToolFHE without reverts, including the oracle callback", async function () {
+    const tool = profile.contracts.find((contract) => contract.contract === "FHEBenchmarkToolFHE")!;
+    expect(tool.unmeasured).to.deep.eq([]);
+    for (const fn of tool.functions) {
+      expect(fn.reverts, `${fn.function}: ${fn.revertReason}`).to.eq(0);
+      expect(fn.min <= fn.mean && fn.mean <= fn.max, fn.function).to.eq(true);
+    }
+    expect(tool.functions.find((fn) => fn.function === "myCallback")?.calls).to.eq(2);
+  });
+
+  it("reports a reason for every revert", async function () {
+    for (const contract of profile.contracts) {
+      for (const fn of contract.functions.filter((fn) => fn.reverts > 0)) {
+        expect(fn.revertReason, `${contract.contract}.${fn.function}`).to.be.a("string");
+      }
+    }
+  });
+});
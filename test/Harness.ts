@@ -0,0 +1,87 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { SCHEME, deployOperationBenchmark, runOperationBenchmark, supportsOperation } from "../src/benchmark/harness";
+import { FHEOperationBenchmark } from "../types";
+import { skipUnlessMock } from "./helpers";
+
+describe("operation benchmark harness", function () {
+  let bench: FHEOperationBenchmark;
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    bench = await deployOperationBenchmark(hre);
+  });
+
+  it("records a measured executor operation", async function () {
+    const [signer] = await ethers.getSigners();
+    const record = await runOperationBenchmark(hre, bench, {
+      operation: "fheAdd",
+      fheType: "euint32",
+      iterations: 2,
+      values: { lhs: 100, rhs: 7 },
+    });
+
+    expect(record).to.deep.include({
+      scheme: SCHEME,
+      owner: signer.address,
+      operation: "fheAdd",
+      fheType: "euint32",
+      operandMode: "ciphertext",
+    });
+    expect(record.gasUsed).to.be.greaterThan(0);
+    expect(record.executionTime).to.eq(record.executionStats!.mean);
+    expect(record.memoryUsage).to.be.greaterThan(0);
+    // The record keeps the result handle of the last execution
+    expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, record.encryptedData)).to.eq(107n);
+  });
+
+  it("measures the gas spent inside the executor", async function () {
+    const record = await runOperationBenchmark(hre, bench, { operation: "fheAdd", fheType: "euint32", iterations: 1 });
+    const [event] = await bench.queryFilter(bench.filters.OperationExecuted);
+    expect(record.gasUsed).to.eq(Number(event.args.gasUsed));
+  });
+
+  it("keeps one sample per measured iteration and leaves warmup runs out", async function () {
+    const record = await runOperationBenchmark(hre, bench, {
+      operation: "fheMul",
+      fheType: "euint8",
+      iterations: 3,
+      warmup: 2,
+    });
+    const executions = await bench.queryFilter(bench.filters.OperationExecuted);
+
+    expect(record).to.deep.include({ iterations: 3, warmup: 2 });
+    expect(record.samples).to.have.length(3);
+    expect(record.executionStats!.count).to.eq(3);
+    expect(executions).to.have.length(5);
+  });
+
+  it("defaults to no warmup", async function () {
+    const record = await runOperationBenchmark(hre, bench, { operation: "fheAdd", fheType: "euint8", iterations: 1 });
+    expect(record.warmup).to.eq(0);
+    expect(await bench.queryFilter(bench.filters.OperationExecuted)).to.have.length(1);
+  });
+
+  it("rejects runs without measured iterations or with a negative warmup", async function () {
+    await expect(
+      runOperationBenchmark(hre, bench, { operation: "fheAdd", fheType: "euint8", iterations: 0 }),
+    ).to.be.rejectedWith("iterations must be at least 1, got 0");
+    await expect(
+      runOperationBenchmark(hre, bench, { operation: "fheAdd", fheType: "euint8", iterations: 1, warmup: -1 }),
+    ).to.be.rejectedWith("warmup must not be negative, got -1");
+  });
+
+  it("reports combinations the executor does not implement as unsupported", async function () {
+    expect(await supportsOperation(bench, "fheAdd", "euint32")).to.eq(true);
+    expect(await supportsOperation(bench, "fheAdd", "ebool")).to.eq(false);
+  });
+
+  it("requires the FHEVM mock", async function () {
+    const network = { ...hre.network, name: "sepolia" };
+    await expect(
+      deployOperationBenchmark({ ...hre, fhevm: { ...hre.fhevm, isMock: false }, network } as typeof hre),
+    ).to.be.rejectedWith('network "sepolia" is not mocked');
+  });
+});
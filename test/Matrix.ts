@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import hre from "hardhat";
+
+import { deployOperationBenchmark } from "../src/benchmark/harness";
+import { compareOperandModes, formatMatrix, formatModeComparison, runOperationMatrix } from "../src/benchmark/matrix";
+import type { MatrixCell } from "../src/benchmark/matrix";
+import type { BenchmarkRecord } from "../src/benchmark/types";
+import { FHEOperationBenchmark } from "../types";
+import { skipUnlessMock } from "./helpers";
+
+describe("operation matrix", function () {
+  let bench: FHEOperationBenchmark;
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    bench = await deployOperationBenchmark(hre);
+  });
+
+  it("expands every operation against every type, in order", async function () {
+    const reported: MatrixCell[] = [];
+    const cells = await runOperationMatrix(
+      hre,
+      bench,
+      { operations: ["fheAdd", "fheNot"], fheTypes: ["euint8", "ebool"], operandModes: ["ciphertext"], iterations: 1 },
+      (cell) => reported.push(cell),
+    );
+
+    expect(cells.map(({ operation, fheType, supported }) => [operation, fheType, supported])).to.deep.eq([
+      ["fheAdd", "euint8", true],
+      ["fheAdd", "ebool", false],
+      ["fheNot", "euint8", true],
+      ["fheNot", "ebool", true],
+    ]);
+    expect(reported).to.deep.eq(cells);
+  });
+
+  it("only runs the combinations the executor supports", async function () {
+    const [supported, unsupported] = await runOperationMatrix(hre, bench, {
+      operations: ["fheAdd"],
+      fheTypes: ["euint16", "ebool"],
+      operandModes: ["ciphertext"],
+      iterations: 2,
+    });
+
+    expect(supported.record).to.deep.include({ operation: "fheAdd", fheType: "euint16", iterations: 2 });
+    expect(unsupported.record).to.eq(undefined);
+  });
+
+  it("formats one row per operation and a column per type", async function () {
+    const cells = await runOperationMatrix(hre, bench, {
+      operations: ["fheAdd"],
+      fheTypes: ["euint8", "ebool"],
+      operandModes: ["ciphertext"],
+      iterations: 1,
+    });
+    const [header, row, ...rest] = formatMatrix(cells).split("\n");
+
+    expect(rest).to.deep.eq([]);
+    expect(header.split(/\s+/)).to.deep.eq(["operation", "euint8", "ebool", ""]);
+    expect(row).to.match(new RegExp(`^fheAdd \\(ciphertext\\)\\s+[\\d.]+ms/${cells[0].record!.gasUsed}\\s+-\\s*$`));
+  });
+
+  it("gives only operations with a scalar operand a scalar cell", async function () {
+    const cells = await runOperationMatrix(hre, bench, {
+      operations: ["fheAdd", "fheNot"],
+      fheTypes: ["euint8"],
+      operandModes: ["ciphertext", "scalar"],
+      iterations: 1,
+    });
+
+    expect(cells.map(({ operation, operandMode }) => `${operation}:${operandMode}`)).to.deep.eq([
+      "fheAdd:ciphertext",
+      "fheAdd:scalar",
+      "fheNot:ciphertext",
+    ]);
+    expect(cells.every((cell) => cell.supported)).to.eq(true);
+  });
+
+  it("pairs the ciphertext and scalar runs of each operation and type", async function () {
+    const cells = await runOperationMatrix(hre, bench, {
+      operations: ["fheAdd", "fheNot"],
+      fheTypes: ["euint8", "euint16"],
+      iterations: 1,
+    });
+    const comparisons = compareOperandModes(cells);
+
+    expect(comparisons.map(({ operation, fheType }) => `${operation}:${fheType}`)).to.deep.eq([
+      "fheAdd:euint8",
+      "fheAdd:euint16",
+    ]);
+    for (const { ciphertext, scalar } of comparisons) {
+      expect(ciphertext?.operandMode).to.eq("ciphertext");
+      expect(scalar?.operandMode).to.eq("scalar");
+    }
+
+    const [, row] = formatModeComparison(comparisons).split("\n");
+    const { ciphertext, scalar } = comparisons[0];
+    expect(row.trimEnd()).to.match(/^fheAdd\s+euint8\s/);
+    expect(row.trimEnd().endsWith(`${(ciphertext!.executionTime / scalar!.executionTime).toFixed(2)}x`)).to.eq(true);
+  });
+
+  it("shows no speedup when one side is unsupported", function () {
+    const record = { executionTime: 1, gasUsed: 1 } as BenchmarkRecord;
+    const [, row] = formatModeComparison([{ operation: "fheDiv", fheType: "euint8", scalar: record }]).split("\n");
+    expect(row.trimEnd().split(/\s+/)).to.deep.eq(["fheDiv", "euint8", "-", "1.0ms/1", "-"]);
+  });
+});
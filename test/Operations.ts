@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  EXECUTOR_OPERATIONS,
+  FHE_TYPES,
+  encodeOperation,
+  executorInterface,
+  hasScalarOperand,
+  operandValues,
+} from "../src/benchmark/operations";
+import type { FheTypeName, OperandMode, OperandSet } from "../src/benchmark/operations";
+
+const handle = (n: number) => ethers.zeroPadValue(ethers.toBeHex(n), 32);
+const operands: OperandSet = { lhs: handle(1), rhs: handle(2), control: handle(3) };
+const values = { lhs: 100, rhs: 7 };
+
+function decode(operation: string, fheType: FheTypeName, mode: OperandMode = "ciphertext") {
+  const data = encodeOperation(operation, fheType, mode, operands, values);
+  return [...executorInterface.decodeFunctionData(operation, data)];
+}
+
+describe("executor operations", function () {
+  it("lists the executor operations except verifyCiphertext and views", function () {
+    expect(EXECUTOR_OPERATIONS).to.include.members(["fheAdd", "fheNot", "cast", "trivialEncrypt", "fheRandBounded"]);
+    expect(EXECUTOR_OPERATIONS).to.not.include.members(["verifyCiphertext", "getInputVerifierAddress"]);
+  });
+
+  it("only gives binary operations a scalar operand", function () {
+    expect(hasScalarOperand("fheAdd")).to.eq(true);
+    expect(hasScalarOperand("fheDiv")).to.eq(true);
+    expect(hasScalarOperand("fheNot")).to.eq(false);
+    expect(hasScalarOperand("fheIfThenElse")).to.eq(false);
+  });
+
+  describe("encodeOperation", function () {
+    it("passes both handles in ciphertext mode", function () {
+      expect(decode("fheAdd", "euint32")).to.deep.eq([operands.lhs, operands.rhs, "0x00"]);
+    });
+
+    it("passes the right-hand value as a plaintext in scalar mode", function () {
+      expect(decode("fheAdd", "euint32", "scalar")).to.deep.eq([operands.lhs, handle(values.rhs), "0x01"]);
+    });
+
+    it("rejects scalar mode for operations without a scalar operand", function () {
+      expect(() => encodeOperation("fheNot", "euint32", "scalar", operands, values)).to.throw(
+        "fheNot has no scalar operand mode",
+      );
+    });
+
+    it("rejects names the executor does not implement", function () {
+      expect(() => encodeOperation("fheSqrt", "euint32", "ciphertext", operands, values)).to.throw(
+        'IFHEVMExecutor has no operation "fheSqrt"',
+      );
+    });
+
+    it("encodes the unary operations on the left-hand handle", function () {
+      expect(decode("fheNot", "euint8")).to.deep.eq([operands.lhs]);
+      expect(decode("fheNeg", "euint8")).to.deep.eq([operands.lhs]);
+    });
+
+    it("selects between the operands with the control handle", function () {
+      expect(decode("fheIfThenElse", "euint16")).to.deep.eq([operands.control, operands.lhs, operands.rhs]);
+    });
+
+    it("casts to a different width than the operand type", function () {
+      expect(decode("cast", "euint32")).to.deep.eq([operands.lhs, BigInt(FHE_TYPES.euint64)]);
+      expect(decode("cast", "euint8")).to.deep.eq([operands.lhs, BigInt(FHE_TYPES.euint32)]);
+    });
+
+    it("trivially encrypts the left-hand plaintext as the requested type", function () {
+      for (const fheType of ["ebool", "euint8", "euint128"] as const) {
+        expect(decode("trivialEncrypt", fheType)).to.deep.eq([BigInt(values.lhs), BigInt(FHE_TYPES[fheType])]);
+      }
+    });
+
+    it("draws random values of the requested type under a power-of-two bound", function () {
+      expect(decode("fheRand", "euint64")).to.deep.eq([BigInt(FHE_TYPES.euint64)]);
+      expect(decode("fheRandBounded", "euint64")).to.deep.eq([16n, BigInt(FHE_TYPES.euint64)]);
+    });
+  });
+
+  describe("operandValues", function () {
+    it("reduces values to bits for ebool", function () {
+      expect(operandValues("ebool", { lhs: 100, rhs: 0 })).to.deep.eq({ lhs: 1, rhs: 0 });
+    });
+
+    it("keeps values for integer types", function () {
+      expect(operandValues("euint8", values)).to.deep.eq(values);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import hre, { ethers, fhevm } from "hardhat";
+import { createOracleRelayer, revertReason } from "../src/benchmark/oracle";
+import type { OracleRelayer } from "../src/benchmark/oracle";
+import { FHEBenchmarkToolFHE, FHEBenchmarkToolFHE__factory } from "../types";
+import {
+  Metric,
+  RequestStatus,
+  Signers,
+  deployBenchmarkTool,
+  namedSigners,
+  openBatch,
+  skipUnlessMock,
+} from "./helpers";
+
+describe("Local oracle relayer", function () {
+  let signers: Signers<"owner" | "alice" | "bob">;
+  let tool: FHEBenchmarkToolFHE;
+  let relayer: OracleRelayer;
+
+  before(async function () {
+    signers = await namedSigners("owner", "alice", "bob");
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ tool } = await deployBenchmarkTool(signers.alice, signers.bob));
+    await tool.setDecryptionCooldown(1);
+    await openBatch(tool);
+    await tool.connect(signers.alice).submitBenchmarkData(1, 120);
+    await tool.connect(signers.bob).submitBenchmarkData(1, 80);
+    await tool.closeBatch(1);
+    relayer = await createOracleRelayer(hre, { fromBlock: (await ethers.provider.getBlockNumber()) + 1 });
+  });
+
+  afterEach(async function () {
+    // The plugin's oracle still sees the requests relayed here; let it reject its duplicate answers now
+    // rather than in a later test's awaitDecryptionOracle
+    await fhevm.awaitDecryptionOracle().catch(() => undefined);
+  });
+
+  it("answers a batch decryption request end to end", async function () {
+    await tool.requestBenchmarkResultDecryption(1);
+    const requestId = await tool.latestRequestIds(1, Metric.ExecutionTime);
+
+    const relayed = await relayer.relay();
+    expect(relayed).to.have.length(1);
+    expect(relayed[0]).to.include({
+      requestId,
+      contract: await tool.getAddress(),
+      callback: "myCallback",
+      status: "fulfilled",
+    });
+    expect(relayed[0].cleartexts).to.deep.eq([200n, 80n, 120n, 120n ** 2n + 80n ** 2n]);
+
+    expect(await tool.getDecryptionStatus(requestId)).to.eq(RequestStatus.Fulfilled);
+    const result = await tool.getBatchResult(1, Metric.ExecutionTime);
+    expect(result.decrypted).to.eq(true);
+    expect(result.total).to.eq(200);
+    expect(result.min).to.eq(80);
+    expect(result.max).to.eq(120);
+  });
+
+  it("answers each request only once", async function () {
+    await tool.requestBenchmarkResultDecryption(1);
+    expect(await relayer.relay()).to.have.length(1);
+    expect(await relayer.relay()).to.deep.eq([]);
+  });
+
+  it("keeps answering after a callback is rejected", async function () {
+    await tool.requestMetricDecryption(1, Metric.ExecutionTime);
+    const cancelled = await tool.latestRequestIds(1, Metric.ExecutionTime);
+    await tool.cancelDecryptionRequest(cancelled);
+    await tool.requestMetricDecryption(1, Metric.ExecutionTime);
+    const pending = await tool.latestRequestIds(1, Metric.ExecutionTime);
+
+    const relayed = await relayer.relay();
+    expect(relayed.map((entry) => [entry.requestId, entry.status, entry.reason])).to.deep.eq([
+      [cancelled, "rejected", "RequestNotPending"],
+      [pending, "fulfilled", undefined],
+    ]);
+    expect(await tool.getDecryptionStatus(pending)).to.eq(RequestStatus.Fulfilled);
+  });
+
+  it("reports requests the plugin's oracle already answered", async function () {
+    await tool.requestBenchmarkResultDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+
+    const [relayed] = await relayer.relay();
+    expect(relayed.status).to.eq("rejected");
+    expect(relayed.reason).to.eq("ReplayAttempt");
+  });
+});
+
+describe("revertReason", function () {
+  const errors = FHEBenchmarkToolFHE__factory.createInterface();
+  const selector = errors.getError("RequestNotPending")!.selector;
+
+  it("decodes custom errors Hardhat could not name", function () {
+    const error = new Error(
+      `Error: VM Exception while processing transaction: reverted with an unrecognized custom error (return data: ${selector})`,
+    );
+    expect(revertReason(errors, error)).to.eq("RequestNotPending");
+  });
+
+  it("decodes the return data of a nested provider error", function () {
+    expect(revertReason(errors, { message: "call failed", error: { data: selector } })).to.eq("RequestNotPending");
+  });
+
+  it("reads require messages from their return data", function () {
+    const data = errors.encodeErrorResult("Error", ["Score not found"]);
+    expect(revertReason(errors, { message: "call failed", data })).to.eq("Score not found");
+  });
+
+  it("falls back to the message when the data names no known error", function () {
+    expect(revertReason(errors, new Error("unrecognized custom error (return data: 0xdeadbeef)\nstack"))).to.eq(
+      "unrecognized custom error (return data: 0xdeadbeef)",
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { expect } from "chai";
+
+import { iqrOutliers, percentile, summarize, tCritical95 } from "../src/benchmark/stats";
+
+describe("sample statistics", function () {
+  it("summarizes a single sample without spread", function () {
+    const summary = summarize([5]);
+    expect(summary).to.deep.include({ count: 1, mean: 5, min: 5, max: 5, median: 5, p90: 5, p99: 5, stddev: 0 });
+    expect(summary.ci95).to.deep.eq({ low: 5, high: 5 });
+    expect(summary.outliers).to.deep.eq([]);
+  });
+
+  it("uses the 1-df t value for two samples", function () {
+    const summary = summarize([4, 2]);
+    expect(summary.mean).to.eq(3);
+    expect(summary.median).to.eq(3);
+    expect(summary.p90).to.be.closeTo(3.8, 1e-9);
+    expect(summary.stddev).to.be.closeTo(Math.SQRT2, 1e-9);
+    // margin = 12.706 × √2 / √2
+    expect(summary.ci95.low).to.be.closeTo(3 - 12.706, 1e-9);
+    expect(summary.ci95.high).to.be.closeTo(3 + 12.706, 1e-9);
+  });
+
+  it("matches known values for a small sample", function () {
+    const summary = summarize([2, 4, 4, 4, 5, 5, 7, 9]);
+    expect(summary.mean).to.eq(5);
+    expect(summary.median).to.eq(4.5);
+    expect(summary.stddev).to.be.closeTo(Math.sqrt(32 / 7), 1e-9);
+    const margin = 2.365 * (summary.stddev / Math.sqrt(8));
+    expect(summary.ci95.low).to.be.closeTo(5 - margin, 1e-9);
+    expect(summary.ci95.high).to.be.closeTo(5 + margin, 1e-9);
+  });
+
+  it("flags samples outside 1.5 × IQR by index", function () {
+    const samples = [10, 12, 11, 50, 12, 11, 13];
+    // Q1 11, Q3 12.5: the fences are 8.75 and 14.75
+    expect(iqrOutliers(samples)).to.deep.eq([3]);
+    expect(summarize(samples).outliers).to.deep.eq([3]);
+    expect(iqrOutliers([1, 2, 100])).to.deep.eq([]);
+  });
+
+  it("interpolates percentiles between ranks", function () {
+    expect(percentile([10, 20, 30, 40], 50)).to.eq(25);
+    expect(percentile([10, 20, 30, 40], 0)).to.eq(10);
+    expect(percentile([10, 20, 30, 40], 100)).to.eq(40);
+    expect(() => percentile([], 50)).to.throw("empty");
+  });
+
+  it("rounds degrees of freedom past the t table down to the nearest tabulated value", function () {
+    expect(tCritical95(1)).to.eq(12.706);
+    expect(tCritical95(30)).to.eq(2.042);
+    expect(tCritical95(31)).to.eq(2.042);
+    expect(tCritical95(39)).to.eq(2.042);
+    expect(tCritical95(40)).to.eq(2.021);
+    expect(tCritical95(119)).to.eq(2.0);
+    expect(tCritical95(5000)).to.eq(1.962);
+    expect(() => tCritical95(0)).to.throw();
+  });
+
+  it("rejects an empty sample", function () {
+    expect(() => summarize([])).to.throw("empty");
+  });
+});
@@ -0,0 +1,136 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import path from "path";
+import hre, { fhevm } from "hardhat";
+
+import { deployOperationBenchmark } from "../src/benchmark/harness";
+import { seededOperandValues } from "../src/benchmark/operations";
+import { loadSuite, parseSuite, runSuite } from "../src/benchmark/suite";
+import { skipUnlessMock } from "./helpers";
+
+const SUITES = path.join(__dirname, "..", "scripts", "suites");
+
+describe("benchmark suites", function () {
+  describe("parseSuite", function () {
+    it("fills in the defaults and names the suite after its file", function () {
+      expect(parseSuite({ operations: ["fheAdd"], types: ["euint8"] }, "suites/quick.yml")).to.deep.eq({
+        name: "quick",
+        operations: ["fheAdd"],
+        types: ["euint8"],
+        operandModes: ["ciphertext"],
+        iterations: 5,
+        warmup: 1,
+        seeds: [],
+      });
+    });
+
+    it("keeps every field that is given", function () {
+      const suite = {
+        name: "arithmetic",
+        operations: ["fheAdd", "fheDiv"],
+        types: ["euint8", "euint64"],
+        operandModes: ["ciphertext", "scalar"],
+        iterations: 10,
+        warmup: 0,
+        seeds: [1, -2],
+      };
+      expect(parseSuite(suite, "suite.json")).to.deep.eq(suite);
+    });
+
+    const rejected: [string, unknown, string][] = [
+      ["a list", [], "a suite must be an object"],
+      ["no operations", { types: ["euint8"] }, '"operations" is required'],
+      ["empty operations", { operations: [], types: ["euint8"] }, '"operations" is required'],
+      ["a non-string operation", { operations: [1], types: ["euint8"] }, '"operations" must be a list of strings'],
+      ["an unknown operation", { operations: ["fheSqrt"], types: ["euint8"] }, 'unsupported operation "fheSqrt"'],
+      ["no types", { operations: ["fheAdd"] }, '"types" is required'],
+      ["an unknown type", { operations: ["fheAdd"], types: ["euint7"] }, 'unsupported encrypted type "euint7"'],
+      [
+        "an unknown operand mode",
+        { operations: ["fheAdd"], types: ["euint8"], operandModes: ["plain"] },
+        'unsupported operand mode "plain"',
+      ],
+      [
+        "fractional seeds",
+        { operations: ["fheAdd"], types: ["euint8"], seeds: [1.5] },
+        '"seeds" must be a list of integers',
+      ],
+      [
+        "zero iterations",
+        { operations: ["fheAdd"], types: ["euint8"], iterations: 0 },
+        '"iterations" must be an integer of at least 1',
+      ],
+      [
+        "a negative warmup",
+        { operations: ["fheAdd"], types: ["euint8"], warmup: -1 },
+        '"warmup" must be an integer of at least 0',
+      ],
+      ["a numeric name", { name: 3, operations: ["fheAdd"], types: ["euint8"] }, '"name" must be a string'],
+    ];
+    for (const [description, raw, message] of rejected) {
+      it(`rejects ${description}`, function () {
+        expect(() => parseSuite(raw, "bad.yml")).to.throw(`bad.yml: ${message}`);
+      });
+    }
+  });
+
+  describe("loadSuite", function () {
+    it("reads JSON suites", function () {
+      expect(loadSuite(path.join(SUITES, "smoke.json"))).to.deep.include({
+        name: "smoke",
+        operations: ["fheAdd", "fheEq", "fheNot"],
+        iterations: 2,
+        warmup: 0,
+      });
+    });
+
+    it("reads YAML suites", function () {
+      expect(loadSuite(path.join(SUITES, "arithmetic.yml"))).to.deep.include({
+        name: "arithmetic",
+        operandModes: ["ciphertext", "scalar"],
+        seeds: [1, 2, 3],
+      });
+    });
+  });
+
+  describe("seededOperandValues", function () {
+    it("derives the same operands from the same seed", function () {
+      expect(seededOperandValues(42)).to.deep.eq(seededOperandValues(42));
+      expect(seededOperandValues(1)).to.not.deep.eq(seededOperandValues(2));
+    });
+
+    it("stays within 1..255", function () {
+      for (let seed = 0; seed < 200; seed++) {
+        const { lhs, rhs } = seededOperandValues(seed);
+        for (const value of [lhs, rhs]) {
+          expect(value).to.be.within(1, 255);
+        }
+      }
+    });
+  });
+
+  describe("runSuite", function () {
+    beforeEach(function () {
+      skipUnlessMock(this);
+    });
+
+    it("runs every seed and skips combinations the executor rejects", async function () {
+      const bench = await deployOperationBenchmark(hre);
+      const suite = parseSuite(
+        { operations: ["fheAdd"], types: ["euint16", "ebool"], iterations: 1, warmup: 0, seeds: [1, 2] },
+        "seeded.json",
+      );
+      const reported: number[] = [];
+      const result = await runSuite(hre, bench, suite, (record) => reported.push(record.seed!));
+
+      expect(result.suite).to.eq("seeded");
+      expect(result.skipped).to.deep.eq([{ operation: "fheAdd", fheType: "ebool", operandMode: "ciphertext" }]);
+      expect(result.records.map((record) => record.seed)).to.deep.eq([1, 2]);
+      expect(reported).to.deep.eq([1, 2]);
+      for (const record of result.records) {
+        const { lhs, rhs } = seededOperandValues(record.seed!);
+        expect(await fhevm.debugger.decryptEuint(FhevmType.euint16, record.encryptedData)).to.eq(BigInt(lhs + rhs));
+      }
+    });
+  });
+});
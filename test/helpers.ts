@@ -0,0 +1,46 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { FHEBenchmarkToolFHE, FHEBenchmarkToolFHE__factory } from "../types";
+
+export { CloseReason, Metric, RequestStatus } from "../src/benchmark/types";
+
+export type Signers<Name extends string> = Record<Name, HardhatEthersSigner>;
+
+export const tag = ethers.encodeBytes32String;
+
+/** The first hardhat accounts under the given names, in order; the first one deploys. */
+export async function namedSigners<Name extends string>(...names: Name[]): Promise<Signers<Name>> {
+  const accounts = await ethers.getSigners();
+  return Object.fromEntries(names.map((name, index) => [name, accounts[index]])) as Signers<Name>;
+}
+
+/** Providers a batch needs before decryption in the fixtures, which mostly submit from two accounts. */
+export const FIXTURE_MIN_PROVIDER_COUNT = 2;
+
+/**
+ * Deploys FHEBenchmarkToolFHE from the first account, registers `providers` and lowers the default provider
+ * minimum to `FIXTURE_MIN_PROVIDER_COUNT`.
+ */
+export async function deployBenchmarkTool(...providers: HardhatEthersSigner[]) {
+  const factory = (await ethers.getContractFactory("FHEBenchmarkToolFHE")) as FHEBenchmarkToolFHE__factory;
+  const tool = (await factory.deploy()) as FHEBenchmarkToolFHE;
+  for (const provider of providers) {
+    await tool.addProvider(provider.address);
+  }
+  await tool.setDefaultMinProviderCount(FIXTURE_MIN_PROVIDER_COUNT);
+  return { tool, toolAddress: await tool.getAddress() };
+}
+
+/** Opens a TFHE euint32 batch on the default parameter set. */
+export async function openBatch(tool: FHEBenchmarkToolFHE, operation = "fheAdd") {
+  await tool.openBatch(tag("TFHE"), tag(operation), tag("euint32"), tag("default"));
+  return Number(await tool.currentBatchId());
+}
+
+/** The decryption oracle and debug decryption only exist on the mock FHEVM. */
+export function skipUnlessMock(context: Mocha.Context) {
+  if (!fhevm.isMock) {
+    console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+    context.skip();
+  }
+}
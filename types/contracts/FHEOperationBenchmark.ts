@@ -0,0 +1,196 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface FHEOperationBenchmarkInterface extends Interface {
+  getFunction(
+    nameOrSignature: "createOperand" | "execute" | "protocolId"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "OperandCreated" | "OperationExecuted"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "createOperand",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "execute", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "createOperand",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "execute", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+}
+
+export namespace OperandCreatedEvent {
+  export type InputTuple = [handle: BytesLike, fheType: BigNumberish];
+  export type OutputTuple = [handle: string, fheType: bigint];
+  export interface OutputObject {
+    handle: string;
+    fheType: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperationExecutedEvent {
+  export type InputTuple = [
+    selector: BytesLike,
+    result: BytesLike,
+    gasUsed: BigNumberish
+  ];
+  export type OutputTuple = [selector: string, result: string, gasUsed: bigint];
+  export interface OutputObject {
+    selector: string;
+    result: string;
+    gasUsed: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FHEOperationBenchmark extends BaseContract {
+  connect(runner?: ContractRunner | null): FHEOperationBenchmark;
+  waitForDeployment(): Promise<this>;
+
+  interface: FHEOperationBenchmarkInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  createOperand: TypedContractMethod<
+    [value: BigNumberish, fheType: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  execute: TypedContractMethod<
+    [executorCall: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "createOperand"
+  ): TypedContractMethod<
+    [value: BigNumberish, fheType: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "execute"
+  ): TypedContractMethod<[executorCall: BytesLike], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "OperandCreated"
+  ): TypedContractEvent<
+    OperandCreatedEvent.InputTuple,
+    OperandCreatedEvent.OutputTuple,
+    OperandCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperationExecuted"
+  ): TypedContractEvent<
+    OperationExecutedEvent.InputTuple,
+    OperationExecutedEvent.OutputTuple,
+    OperationExecutedEvent.OutputObject
+  >;
+
+  filters: {
+    "OperandCreated(bytes32,uint8)": TypedContractEvent<
+      OperandCreatedEvent.InputTuple,
+      OperandCreatedEvent.OutputTuple,
+      OperandCreatedEvent.OutputObject
+    >;
+    OperandCreated: TypedContractEvent<
+      OperandCreatedEvent.InputTuple,
+      OperandCreatedEvent.OutputTuple,
+      OperandCreatedEvent.OutputObject
+    >;
+
+    "OperationExecuted(bytes4,bytes32,uint256)": TypedContractEvent<
+      OperationExecutedEvent.InputTuple,
+      OperationExecutedEvent.OutputTuple,
+      OperationExecutedEvent.OutputObject
+    >;
+    OperationExecuted: TypedContractEvent<
+      OperationExecutedEvent.InputTuple,
+      OperationExecutedEvent.OutputTuple,
+      OperationExecutedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,2139 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace FHEBenchmarkToolFHE {
+  export type BatchResultStruct = {
+    batchId: BigNumberish;
+    metric: BigNumberish;
+    decrypted: boolean;
+    dataCount: BigNumberish;
+    total: BigNumberish;
+    min: BigNumberish;
+    max: BigNumberish;
+    sumOfSquares: BigNumberish;
+    average: BigNumberish;
+    decryptedAt: BigNumberish;
+  };
+
+  export type BatchResultStructOutput = [
+    batchId: bigint,
+    metric: bigint,
+    decrypted: boolean,
+    dataCount: bigint,
+    total: bigint,
+    min: bigint,
+    max: bigint,
+    sumOfSquares: bigint,
+    average: bigint,
+    decryptedAt: bigint
+  ] & {
+    batchId: bigint;
+    metric: bigint;
+    decrypted: boolean;
+    dataCount: bigint;
+    total: bigint;
+    min: bigint;
+    max: bigint;
+    sumOfSquares: bigint;
+    average: bigint;
+    decryptedAt: bigint;
+  };
+
+  export type DecryptionContextStruct = {
+    requestId: BigNumberish;
+    batchId: BigNumberish;
+    metric: BigNumberish;
+    stateHash: BytesLike;
+    status: BigNumberish;
+    requester: AddressLike;
+    requestedAt: BigNumberish;
+  };
+
+  export type DecryptionContextStructOutput = [
+    requestId: bigint,
+    batchId: bigint,
+    metric: bigint,
+    stateHash: string,
+    status: bigint,
+    requester: string,
+    requestedAt: bigint
+  ] & {
+    requestId: bigint;
+    batchId: bigint;
+    metric: bigint;
+    stateHash: string;
+    status: bigint;
+    requester: string;
+    requestedAt: bigint;
+  };
+}
+
+export interface FHEBenchmarkToolFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "BATCH_OPERATOR_ROLE"
+      | "DECRYPTION_REQUESTER_ROLE"
+      | "MAX_SAMPLES_PER_SUBMISSION"
+      | "PAUSER_ROLE"
+      | "acceptOwnership"
+      | "addProvider"
+      | "batchPolicies"
+      | "batches"
+      | "cancelDecryptionRequest"
+      | "closeBatch"
+      | "cooldownExempt"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "decryptionCooldown"
+      | "decryptionTimeout"
+      | "defaultMinProviderCount"
+      | "getBatchResult"
+      | "getBatchResults"
+      | "getContribution"
+      | "getDecryptionStatus"
+      | "getOpenBatchIds"
+      | "getOutstandingRequests"
+      | "grantRole"
+      | "hasRole"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "latestRequestIds"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "pendingOwner"
+      | "protocolId"
+      | "providerSubmissionCooldowns"
+      | "providers"
+      | "removeProvider"
+      | "renounceRole"
+      | "requestBenchmarkResultDecryption"
+      | "requestMetricDecryption"
+      | "retryDecryptionRequest"
+      | "revokeRole"
+      | "setBatchPolicy"
+      | "setCooldownExempt"
+      | "setDecryptionCooldown"
+      | "setDecryptionTimeout"
+      | "setDefaultMinProviderCount"
+      | "setProviderSubmissionCooldown"
+      | "setSubmissionCooldown"
+      | "submissionCooldown"
+      | "submissionCooldownOf"
+      | "submitBenchmarkData"
+      | "submitBenchmarkDataBatch"
+      | "submitEncryptedBenchmarkData"
+      | "submitEncryptedBenchmarkMetrics"
+      | "transferOwnership"
+      | "unpause"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchAutoClosed"
+      | "BatchClosed"
+      | "BatchOpened"
+      | "BatchPolicySet"
+      | "CooldownExemptionSet"
+      | "DataSubmitted"
+      | "DecryptionCancelled"
+      | "DecryptionCompleted"
+      | "DecryptionCooldownChanged"
+      | "DecryptionExpired"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DecryptionTimeoutChanged"
+      | "DefaultMinProviderCountChanged"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "ProviderSubmissionCooldownSet"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "SubmissionCooldownChanged"
+      | "Unpaused"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "BATCH_OPERATOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DECRYPTION_REQUESTER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SAMPLES_PER_SUBMISSION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchPolicies",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelDecryptionRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownExempt",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionCooldown",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionTimeout",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultMinProviderCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchResult",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchResults",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getContribution",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptionStatus",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOpenBatchIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOutstandingRequests",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "latestRequestIds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openBatch",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providerSubmissionCooldowns",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBenchmarkResultDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestMetricDecryption",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retryDecryptionRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBatchPolicy",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownExempt",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDecryptionCooldown",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDecryptionTimeout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDefaultMinProviderCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setProviderSubmissionCooldown",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSubmissionCooldown",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submissionCooldown",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submissionCooldownOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitBenchmarkData",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitBenchmarkDataBatch",
+    values: [BigNumberish, BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedBenchmarkData",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedBenchmarkMetrics",
+    values: [
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "BATCH_OPERATOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DECRYPTION_REQUESTER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SAMPLES_PER_SUBMISSION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchPolicies",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batches", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelDecryptionRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownExempt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultMinProviderCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getContribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptionStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOpenBatchIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOutstandingRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "latestRequestIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "providerSubmissionCooldowns",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "providers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBenchmarkResultDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestMetricDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retryDecryptionRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setBatchPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownExempt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDecryptionCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDecryptionTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDefaultMinProviderCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setProviderSubmissionCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSubmissionCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submissionCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submissionCooldownOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitBenchmarkData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitBenchmarkDataBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedBenchmarkData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedBenchmarkMetrics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+}
+
+export namespace BatchAutoClosedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    reason: BigNumberish,
+    dataCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    reason: bigint,
+    dataCount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    reason: bigint;
+    dataCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish, dataCount: BigNumberish];
+  export type OutputTuple = [batchId: bigint, dataCount: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    dataCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    scheme: BytesLike,
+    operation: BytesLike,
+    fheType: BytesLike,
+    paramSet: BytesLike
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    scheme: string,
+    operation: string,
+    fheType: string,
+    paramSet: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    scheme: string;
+    operation: string;
+    fheType: string;
+    paramSet: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchPolicySetEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    minProviderCount: BigNumberish,
+    maxDataCount: BigNumberish,
+    deadline: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    minProviderCount: bigint,
+    maxDataCount: bigint,
+    deadline: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    minProviderCount: bigint;
+    maxDataCount: bigint;
+    deadline: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownExemptionSetEvent {
+  export type InputTuple = [account: AddressLike, exempt: boolean];
+  export type OutputTuple = [account: string, exempt: boolean];
+  export interface OutputObject {
+    account: string;
+    exempt: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DataSubmittedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    dataCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    dataCount: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    dataCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCancelledEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    metric: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    metric: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    metric: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    metric: BigNumberish,
+    dataCount: BigNumberish,
+    total: BigNumberish,
+    min: BigNumberish,
+    max: BigNumberish,
+    sumOfSquares: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    metric: bigint,
+    dataCount: bigint,
+    total: bigint,
+    min: bigint,
+    max: bigint,
+    sumOfSquares: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    metric: bigint;
+    dataCount: bigint;
+    total: bigint;
+    min: bigint;
+    max: bigint;
+    sumOfSquares: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCooldownChangedEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionExpiredEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    newRequestId: BigNumberish,
+    batchId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    newRequestId: bigint,
+    batchId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    newRequestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    metric: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    metric: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    metric: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionTimeoutChangedEvent {
+  export type InputTuple = [oldTimeout: BigNumberish, newTimeout: BigNumberish];
+  export type OutputTuple = [oldTimeout: bigint, newTimeout: bigint];
+  export interface OutputObject {
+    oldTimeout: bigint;
+    newTimeout: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DefaultMinProviderCountChangedEvent {
+  export type InputTuple = [
+    oldMinProviderCount: BigNumberish,
+    newMinProviderCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldMinProviderCount: bigint,
+    newMinProviderCount: bigint
+  ];
+  export interface OutputObject {
+    oldMinProviderCount: bigint;
+    newMinProviderCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderSubmissionCooldownSetEvent {
+  export type InputTuple = [provider: AddressLike, cooldown: BigNumberish];
+  export type OutputTuple = [provider: string, cooldown: bigint];
+  export interface OutputObject {
+    provider: string;
+    cooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubmissionCooldownChangedEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FHEBenchmarkToolFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): FHEBenchmarkToolFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: FHEBenchmarkToolFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  BATCH_OPERATOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DECRYPTION_REQUESTER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MAX_SAMPLES_PER_SUBMISSION: TypedContractMethod<[], [bigint], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchPolicies: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        minProviderCount: bigint;
+        maxDataCount: bigint;
+        deadline: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  batches: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, boolean, bigint, string, string, string, string] & {
+        id: bigint;
+        active: boolean;
+        dataCount: bigint;
+        scheme: string;
+        operation: string;
+        fheType: string;
+        paramSet: string;
+      }
+    ],
+    "view"
+  >;
+
+  cancelDecryptionRequest: TypedContractMethod<
+    [requestId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownExempt: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, bigint, string, bigint] & {
+        requestId: bigint;
+        batchId: bigint;
+        metric: bigint;
+        stateHash: string;
+        status: bigint;
+        requester: string;
+        requestedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  decryptionCooldown: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionTimeout: TypedContractMethod<[], [bigint], "view">;
+
+  defaultMinProviderCount: TypedContractMethod<[], [bigint], "view">;
+
+  getBatchResult: TypedContractMethod<
+    [batchId: BigNumberish, metric: BigNumberish],
+    [FHEBenchmarkToolFHE.BatchResultStructOutput],
+    "view"
+  >;
+
+  getBatchResults: TypedContractMethod<
+    [fromBatchId: BigNumberish, toBatchId: BigNumberish, metric: BigNumberish],
+    [FHEBenchmarkToolFHE.BatchResultStructOutput[]],
+    "view"
+  >;
+
+  getContribution: TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike, metric: BigNumberish],
+    [[string, string] & { encryptedTotal: string; encryptedCount: string }],
+    "view"
+  >;
+
+  getDecryptionStatus: TypedContractMethod<
+    [requestId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getOpenBatchIds: TypedContractMethod<[], [bigint[]], "view">;
+
+  getOutstandingRequests: TypedContractMethod<
+    [batchId: BigNumberish],
+    [FHEBenchmarkToolFHE.DecryptionContextStructOutput[]],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  latestRequestIds: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<
+    [
+      scheme: BytesLike,
+      operation: BytesLike,
+      fheType: BytesLike,
+      paramSet: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  providerSubmissionCooldowns: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  providers: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceRole: TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+
+  requestBenchmarkResultDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestMetricDecryption: TypedContractMethod<
+    [batchId: BigNumberish, metric: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  retryDecryptionRequest: TypedContractMethod<
+    [requestId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setBatchPolicy: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      minProviderCount: BigNumberish,
+      maxDataCount: BigNumberish,
+      deadline: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownExempt: TypedContractMethod<
+    [account: AddressLike, exempt: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setDecryptionCooldown: TypedContractMethod<
+    [newCooldown: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDecryptionTimeout: TypedContractMethod<
+    [newTimeout: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDefaultMinProviderCount: TypedContractMethod<
+    [newMinProviderCount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setProviderSubmissionCooldown: TypedContractMethod<
+    [provider: AddressLike, cooldown: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setSubmissionCooldown: TypedContractMethod<
+    [newCooldown: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submissionCooldown: TypedContractMethod<[], [bigint], "view">;
+
+  submissionCooldownOf: TypedContractMethod<
+    [provider: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  submitBenchmarkData: TypedContractMethod<
+    [batchId: BigNumberish, executionTime: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitBenchmarkDataBatch: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedExecutionTimes: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedBenchmarkData: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedExecutionTime: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedBenchmarkMetrics: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedExecutionTime: BytesLike,
+      encryptedMemoryUsage: BytesLike,
+      encryptedGasUsed: BytesLike,
+      encryptedCiphertextSize: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "BATCH_OPERATOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DECRYPTION_REQUESTER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SAMPLES_PER_SUBMISSION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchPolicies"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        minProviderCount: bigint;
+        maxDataCount: bigint;
+        deadline: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, boolean, bigint, string, string, string, string] & {
+        id: bigint;
+        active: boolean;
+        dataCount: bigint;
+        scheme: string;
+        operation: string;
+        fheType: string;
+        paramSet: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelDecryptionRequest"
+  ): TypedContractMethod<[requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownExempt"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, bigint, string, bigint] & {
+        requestId: bigint;
+        batchId: bigint;
+        metric: bigint;
+        stateHash: string;
+        status: bigint;
+        requester: string;
+        requestedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionCooldown"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionTimeout"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "defaultMinProviderCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBatchResult"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, metric: BigNumberish],
+    [FHEBenchmarkToolFHE.BatchResultStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchResults"
+  ): TypedContractMethod<
+    [fromBatchId: BigNumberish, toBatchId: BigNumberish, metric: BigNumberish],
+    [FHEBenchmarkToolFHE.BatchResultStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getContribution"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike, metric: BigNumberish],
+    [[string, string] & { encryptedTotal: string; encryptedCount: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptionStatus"
+  ): TypedContractMethod<[requestId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getOpenBatchIds"
+  ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getOutstandingRequests"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [FHEBenchmarkToolFHE.DecryptionContextStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "latestRequestIds"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<
+    [
+      scheme: BytesLike,
+      operation: BytesLike,
+      fheType: BytesLike,
+      paramSet: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providerSubmissionCooldowns"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providers"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBenchmarkResultDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestMetricDecryption"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, metric: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "retryDecryptionRequest"
+  ): TypedContractMethod<[requestId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setBatchPolicy"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      minProviderCount: BigNumberish,
+      maxDataCount: BigNumberish,
+      deadline: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownExempt"
+  ): TypedContractMethod<
+    [account: AddressLike, exempt: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDecryptionCooldown"
+  ): TypedContractMethod<[newCooldown: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDecryptionTimeout"
+  ): TypedContractMethod<[newTimeout: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDefaultMinProviderCount"
+  ): TypedContractMethod<
+    [newMinProviderCount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setProviderSubmissionCooldown"
+  ): TypedContractMethod<
+    [provider: AddressLike, cooldown: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setSubmissionCooldown"
+  ): TypedContractMethod<[newCooldown: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submissionCooldown"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "submissionCooldownOf"
+  ): TypedContractMethod<[provider: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "submitBenchmarkData"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, executionTime: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitBenchmarkDataBatch"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedExecutionTimes: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedBenchmarkData"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedExecutionTime: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedBenchmarkMetrics"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedExecutionTime: BytesLike,
+      encryptedMemoryUsage: BytesLike,
+      encryptedGasUsed: BytesLike,
+      encryptedCiphertextSize: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "BatchAutoClosed"
+  ): TypedContractEvent<
+    BatchAutoClosedEvent.InputTuple,
+    BatchAutoClosedEvent.OutputTuple,
+    BatchAutoClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchPolicySet"
+  ): TypedContractEvent<
+    BatchPolicySetEvent.InputTuple,
+    BatchPolicySetEvent.OutputTuple,
+    BatchPolicySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownExemptionSet"
+  ): TypedContractEvent<
+    CooldownExemptionSetEvent.InputTuple,
+    CooldownExemptionSetEvent.OutputTuple,
+    CooldownExemptionSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DataSubmitted"
+  ): TypedContractEvent<
+    DataSubmittedEvent.InputTuple,
+    DataSubmittedEvent.OutputTuple,
+    DataSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCancelled"
+  ): TypedContractEvent<
+    DecryptionCancelledEvent.InputTuple,
+    DecryptionCancelledEvent.OutputTuple,
+    DecryptionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCooldownChanged"
+  ): TypedContractEvent<
+    DecryptionCooldownChangedEvent.InputTuple,
+    DecryptionCooldownChangedEvent.OutputTuple,
+    DecryptionCooldownChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionExpired"
+  ): TypedContractEvent<
+    DecryptionExpiredEvent.InputTuple,
+    DecryptionExpiredEvent.OutputTuple,
+    DecryptionExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionTimeoutChanged"
+  ): TypedContractEvent<
+    DecryptionTimeoutChangedEvent.InputTuple,
+    DecryptionTimeoutChangedEvent.OutputTuple,
+    DecryptionTimeoutChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DefaultMinProviderCountChanged"
+  ): TypedContractEvent<
+    DefaultMinProviderCountChangedEvent.InputTuple,
+    DefaultMinProviderCountChangedEvent.OutputTuple,
+    DefaultMinProviderCountChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderSubmissionCooldownSet"
+  ): TypedContractEvent<
+    ProviderSubmissionCooldownSetEvent.InputTuple,
+    ProviderSubmissionCooldownSetEvent.OutputTuple,
+    ProviderSubmissionCooldownSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubmissionCooldownChanged"
+  ): TypedContractEvent<
+    SubmissionCooldownChangedEvent.InputTuple,
+    SubmissionCooldownChangedEvent.OutputTuple,
+    SubmissionCooldownChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchAutoClosed(uint256,uint8,uint256)": TypedContractEvent<
+      BatchAutoClosedEvent.InputTuple,
+      BatchAutoClosedEvent.OutputTuple,
+      BatchAutoClosedEvent.OutputObject
+    >;
+    BatchAutoClosed: TypedContractEvent<
+      BatchAutoClosedEvent.InputTuple,
+      BatchAutoClosedEvent.OutputTuple,
+      BatchAutoClosedEvent.OutputObject
+    >;
+
+    "BatchClosed(uint256,uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,bytes32,bytes32,bytes32,bytes32)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "BatchPolicySet(uint256,uint256,uint256,uint256)": TypedContractEvent<
+      BatchPolicySetEvent.InputTuple,
+      BatchPolicySetEvent.OutputTuple,
+      BatchPolicySetEvent.OutputObject
+    >;
+    BatchPolicySet: TypedContractEvent<
+      BatchPolicySetEvent.InputTuple,
+      BatchPolicySetEvent.OutputTuple,
+      BatchPolicySetEvent.OutputObject
+    >;
+
+    "CooldownExemptionSet(address,bool)": TypedContractEvent<
+      CooldownExemptionSetEvent.InputTuple,
+      CooldownExemptionSetEvent.OutputTuple,
+      CooldownExemptionSetEvent.OutputObject
+    >;
+    CooldownExemptionSet: TypedContractEvent<
+      CooldownExemptionSetEvent.InputTuple,
+      CooldownExemptionSetEvent.OutputTuple,
+      CooldownExemptionSetEvent.OutputObject
+    >;
+
+    "DataSubmitted(address,uint256,uint256)": TypedContractEvent<
+      DataSubmittedEvent.InputTuple,
+      DataSubmittedEvent.OutputTuple,
+      DataSubmittedEvent.OutputObject
+    >;
+    DataSubmitted: TypedContractEvent<
+      DataSubmittedEvent.InputTuple,
+      DataSubmittedEvent.OutputTuple,
+      DataSubmittedEvent.OutputObject
+    >;
+
+    "DecryptionCancelled(uint256,uint256,uint8)": TypedContractEvent<
+      DecryptionCancelledEvent.InputTuple,
+      DecryptionCancelledEvent.OutputTuple,
+      DecryptionCancelledEvent.OutputObject
+    >;
+    DecryptionCancelled: TypedContractEvent<
+      DecryptionCancelledEvent.InputTuple,
+      DecryptionCancelledEvent.OutputTuple,
+      DecryptionCancelledEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint8,uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionCooldownChanged(uint256,uint256)": TypedContractEvent<
+      DecryptionCooldownChangedEvent.InputTuple,
+      DecryptionCooldownChangedEvent.OutputTuple,
+      DecryptionCooldownChangedEvent.OutputObject
+    >;
+    DecryptionCooldownChanged: TypedContractEvent<
+      DecryptionCooldownChangedEvent.InputTuple,
+      DecryptionCooldownChangedEvent.OutputTuple,
+      DecryptionCooldownChangedEvent.OutputObject
+    >;
+
+    "DecryptionExpired(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionExpiredEvent.InputTuple,
+      DecryptionExpiredEvent.OutputTuple,
+      DecryptionExpiredEvent.OutputObject
+    >;
+    DecryptionExpired: TypedContractEvent<
+      DecryptionExpiredEvent.InputTuple,
+      DecryptionExpiredEvent.OutputTuple,
+      DecryptionExpiredEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,uint8)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DecryptionTimeoutChanged(uint256,uint256)": TypedContractEvent<
+      DecryptionTimeoutChangedEvent.InputTuple,
+      DecryptionTimeoutChangedEvent.OutputTuple,
+      DecryptionTimeoutChangedEvent.OutputObject
+    >;
+    DecryptionTimeoutChanged: TypedContractEvent<
+      DecryptionTimeoutChangedEvent.InputTuple,
+      DecryptionTimeoutChangedEvent.OutputTuple,
+      DecryptionTimeoutChangedEvent.OutputObject
+    >;
+
+    "DefaultMinProviderCountChanged(uint256,uint256)": TypedContractEvent<
+      DefaultMinProviderCountChangedEvent.InputTuple,
+      DefaultMinProviderCountChangedEvent.OutputTuple,
+      DefaultMinProviderCountChangedEvent.OutputObject
+    >;
+    DefaultMinProviderCountChanged: TypedContractEvent<
+      DefaultMinProviderCountChangedEvent.InputTuple,
+      DefaultMinProviderCountChangedEvent.OutputTuple,
+      DefaultMinProviderCountChangedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "ProviderSubmissionCooldownSet(address,uint256)": TypedContractEvent<
+      ProviderSubmissionCooldownSetEvent.InputTuple,
+      ProviderSubmissionCooldownSetEvent.OutputTuple,
+      ProviderSubmissionCooldownSetEvent.OutputObject
+    >;
+    ProviderSubmissionCooldownSet: TypedContractEvent<
+      ProviderSubmissionCooldownSetEvent.InputTuple,
+      ProviderSubmissionCooldownSetEvent.OutputTuple,
+      ProviderSubmissionCooldownSetEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "SubmissionCooldownChanged(uint256,uint256)": TypedContractEvent<
+      SubmissionCooldownChangedEvent.InputTuple,
+      SubmissionCooldownChangedEvent.OutputTuple,
+      SubmissionCooldownChangedEvent.OutputObject
+    >;
+    SubmissionCooldownChanged: TypedContractEvent<
+      SubmissionCooldownChangedEvent.InputTuple,
+      SubmissionCooldownChangedEvent.OutputTuple,
+      SubmissionCooldownChangedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+  };
+}
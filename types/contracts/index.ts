@@ -1,4 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as fheBenchmarkToolSol from "./FHE_Benchmark_Tool.sol";
+export type { fheBenchmarkToolSol };
+export type { FHEOperationBenchmark } from "./FHEOperationBenchmark";
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,184 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  FHEOperationBenchmark,
+  FHEOperationBenchmarkInterface,
+} from "../../contracts/FHEOperationBenchmark";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "selector",
+        type: "bytes4",
+      },
+    ],
+    name: "OperationFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "enum FheType",
+        name: "fheType",
+        type: "uint8",
+      },
+    ],
+    name: "OperandCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes4",
+        name: "selector",
+        type: "bytes4",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "result",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "gasUsed",
+        type: "uint256",
+      },
+    ],
+    name: "OperationExecuted",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FheType",
+        name: "fheType",
+        type: "uint8",
+      },
+    ],
+    name: "createOperand",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "executorCall",
+        type: "bytes",
+      },
+    ],
+    name: "execute",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "result",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346101ba575f60606100146101be565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60606100446101be565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03197f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416177f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f805160206105eb8339815191525416175f805160206105eb8339815191525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f8051602061060b8339815191525416175f8051602061060b83398151915255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f805160206105cb8339815191525416175f805160206105cb833981519152556040516103d990816101f28239f35b5f80fd5b60405190608082016001600160401b038111838210176101dd57604052565b634e487b7160e01b5f52604160045260245ffdfe6080806040526004361015610012575f80fd5b5f3560e01c90816309c5eabe14610173575080637cb8114c1461005d5763da1f12ab1461003d575f80fd5b34610059575f3660031901126100595760206040516127118152f35b5f80fd5b34610059576040366003190112610059576024356054811015610059577f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b8152600480359082015290602090829060449082905f906001600160a01b03166100d4602484018961032e565b5af1908115610168575f91610135575b50807fc962c45203a3da58a0993505a2372f1ddf569f743861d3a2173fb4b22bdc780e60208094610115308561034f565b61011f338561034f565b61012c604051809261032e565ba2604051908152f35b90506020813d602011610160575b816101506020938361030c565b81010312610059575160206100e4565b3d9150610143565b6040513d5f823e3d90fd5b346100595760203660031901126100595760043567ffffffffffffffff8111610059573660238201121561005957806004013567ffffffffffffffff811161005957602482019160248236920101116100595780600411610059577f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015482356001600160e01b031916935f9283926001600160a01b0316919083908290805a988337810182815203925af1913d15610304573d9267ffffffffffffffff84116102f0576040519361024e601f8201601f19166020018661030c565b84523d5f602086013e5b5a83039283116102dc57156102ca5760208351938180820195869201010312610059577f0cc2d35f765cebbba8f92082f32f2df6fd7190fd590e3ac6ac0cd1806950af6a604060209451936102ad308661034f565b6102b7338661034f565b81519085825286820152a2604051908152f35b6344b27d8160e01b5f5260045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b606092610258565b90601f8019910116810190811067ffffffffffffffff8211176102f057604052565b90605482101561033b5752565b634e487b7160e01b5f52602160045260245ffd5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561005957604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610168576103c05750565b5f6103ca9161030c565b56fea164736f6c634300081a000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702";
+
+type FHEOperationBenchmarkConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: FHEOperationBenchmarkConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class FHEOperationBenchmark__factory extends ContractFactory {
+  constructor(...args: FHEOperationBenchmarkConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      FHEOperationBenchmark & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): FHEOperationBenchmark__factory {
+    return super.connect(runner) as FHEOperationBenchmark__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): FHEOperationBenchmarkInterface {
+    return new Interface(_abi) as FHEOperationBenchmarkInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): FHEOperationBenchmark {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as FHEOperationBenchmark;
+  }
+}
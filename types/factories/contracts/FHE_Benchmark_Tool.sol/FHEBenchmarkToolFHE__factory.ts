@@ -0,0 +1,1963 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  FHEBenchmarkToolFHE,
+  FHEBenchmarkToolFHEInterface,
+} from "../../../contracts/FHE_Benchmark_Tool.sol/FHEBenchmarkToolFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchDeadlinePassed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InsufficientData",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAddress",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCooldown",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPolicy",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRange",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSampleCount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTimeout",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotRequester",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RequestNotExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RequestNotPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum FHEBenchmarkToolFHE.CloseReason",
+        name: "reason",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "dataCount",
+        type: "uint256",
+      },
+    ],
+    name: "BatchAutoClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "dataCount",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "scheme",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "operation",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "fheType",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "paramSet",
+        type: "bytes32",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minProviderCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxDataCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "BatchPolicySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "exempt",
+        type: "bool",
+      },
+    ],
+    name: "CooldownExemptionSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "dataCount",
+        type: "uint256",
+      },
+    ],
+    name: "DataSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "enum FHEBenchmarkToolFHE.Metric",
+        name: "metric",
+        type: "uint8",
+      },
+    ],
+    name: "DecryptionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "enum FHEBenchmarkToolFHE.Metric",
+        name: "metric",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "dataCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "min",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sumOfSquares",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCooldownChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newRequestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "enum FHEBenchmarkToolFHE.Metric",
+        name: "metric",
+        type: "uint8",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldTimeout",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newTimeout",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionTimeoutChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldMinProviderCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newMinProviderCount",
+        type: "uint256",
+      },
+    ],
+    name: "DefaultMinProviderCountChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "cooldown",
+        type: "uint256",
+      },
+    ],
+    name: "ProviderSubmissionCooldownSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "SubmissionCooldownChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "BATCH_OPERATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DECRYPTION_REQUESTER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SAMPLES_PER_SUBMISSION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchPolicies",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "minProviderCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxDataCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "dataCount",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "scheme",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "operation",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "fheType",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "paramSet",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelDecryptionRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "cooldownExempt",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FHEBenchmarkToolFHE.Metric",
+        name: "metric",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum FHEBenchmarkToolFHE.RequestStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "requestedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decryptionCooldown",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decryptionTimeout",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultMinProviderCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FHEBenchmarkToolFHE.Metric",
+        name: "metric",
+        type: "uint8",
+      },
+    ],
+    name: "getBatchResult",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FHEBenchmarkToolFHE.Metric",
+            name: "metric",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "decrypted",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "dataCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "total",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "min",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "max",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "sumOfSquares",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "average",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "decryptedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct FHEBenchmarkToolFHE.BatchResult",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fromBatchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toBatchId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FHEBenchmarkToolFHE.Metric",
+        name: "metric",
+        type: "uint8",
+      },
+    ],
+    name: "getBatchResults",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FHEBenchmarkToolFHE.Metric",
+            name: "metric",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "decrypted",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "dataCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "total",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "min",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "max",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "sumOfSquares",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "average",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "decryptedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct FHEBenchmarkToolFHE.BatchResult[]",
+        name: "results",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "enum FHEBenchmarkToolFHE.Metric",
+        name: "metric",
+        type: "uint8",
+      },
+    ],
+    name: "getContribution",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedTotal",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedCount",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptionStatus",
+    outputs: [
+      {
+        internalType: "enum FHEBenchmarkToolFHE.RequestStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getOpenBatchIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getOutstandingRequests",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "enum FHEBenchmarkToolFHE.Metric",
+            name: "metric",
+            type: "uint8",
+          },
+          {
+            internalType: "bytes32",
+            name: "stateHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "enum FHEBenchmarkToolFHE.RequestStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "requester",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "requestedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct FHEBenchmarkToolFHE.DecryptionContext[]",
+        name: "requests",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FHEBenchmarkToolFHE.Metric",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    name: "latestRequestIds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "scheme",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "operation",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "fheType",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "paramSet",
+        type: "bytes32",
+      },
+    ],
+    name: "openBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providerSubmissionCooldowns",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBenchmarkResultDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FHEBenchmarkToolFHE.Metric",
+        name: "metric",
+        type: "uint8",
+      },
+    ],
+    name: "requestMetricDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "retryDecryptionRequest",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "newRequestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minProviderCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxDataCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "setBatchPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "exempt",
+        type: "bool",
+      },
+    ],
+    name: "setCooldownExempt",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "setDecryptionCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newTimeout",
+        type: "uint256",
+      },
+    ],
+    name: "setDecryptionTimeout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newMinProviderCount",
+        type: "uint256",
+      },
+    ],
+    name: "setDefaultMinProviderCount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "cooldown",
+        type: "uint256",
+      },
+    ],
+    name: "setProviderSubmissionCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "setSubmissionCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "submissionCooldown",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "submissionCooldownOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "executionTime",
+        type: "uint32",
+      },
+    ],
+    name: "submitBenchmarkData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedExecutionTimes",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitBenchmarkDataBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedExecutionTime",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedBenchmarkData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedExecutionTime",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedMemoryUsage",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedGasUsed",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedCiphertextSize",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedBenchmarkMetrics",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346101d9575f6060610014610420565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac6060610044610420565b7350157cffd6bbfa2dece204a89ec419c23ef5755d80825273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf696020830181905273a02cda4ca3a71d7c46997716f4283aa851c288126040840181905293909201939093527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b031990811690941790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054841690911790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831690911790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac908316179055603c60068190556007556003600e55620151806015555f8054339216821781557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a36101af336101dd565b6101b833610270565b6101c133610300565b6101ca33610390565b60405161490290816104548239f35b5f80fd5b6001600160a01b0381165f9081525f80516020614db6833981519152602052604090205460ff1661026d576001600160a01b03165f8181525f80516020614db683398151915260205260408120805460ff191660011790553391907fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775905f80516020614d568339815191529080a4565b50565b6001600160a01b0381165f9081525f80516020614d76833981519152602052604090205460ff1661026d576001600160a01b03165f8181525f80516020614d7683398151915260205260408120805460ff191660011790553391907f52e466598c5e4408cbbaf840ea4dbd39f3e0aa1ba17a69b571858fba5698291f905f80516020614d568339815191529080a4565b6001600160a01b0381165f9081525f80516020614dd6833981519152602052604090205460ff1661026d576001600160a01b03165f8181525f80516020614dd683398151915260205260408120805460ff191660011790553391907fa56bab918981a5a9ca288e159635563219e03273d91a85c75b4bf6cc3f677891905f80516020614d568339815191529080a4565b6001600160a01b0381165f9081525f80516020614d96833981519152602052604090205460ff1661026d576001600160a01b03165f8181525f80516020614d9683398151915260205260408120805460ff191660011790553391907f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a905f80516020614d568339815191529080a4565b60405190608082016001600160401b0381118382101761043f57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063016173cb146132f057806301df027f146132d357806302039684146131485780630787bc271461310b5780630a763da1146130ee5780630bbd33841461304f578063124bd04b14612c26578063269d9a2a14612bd75780632775f57b14612bac5780632842b72c14612b915780632ab7b4f014612b655780632f2ff15d14612b28578063333afe4f14612a5b5780633f4ba83a146129df578063447837fb1461290057806346e2577a1461287d57806348a9294a146127ab57806351c39c66146127255780635a94a079146126ed5780635b0e3507146126625780635c975abb146126405780636f03a45e146125ba578063725451e2146123dd578063737658ce146122ca57806374bc14ef1461229257806374e641bb1461218c57806375b238fc1461216557806379ba50971461201e5780638005cd9414611ff75780638456cb5914611f4b5780638a2c422314611c8d5780638a355a5714611c0d5780638bb9c5bf14611bf05780638da5cb5b14611bc957806391d1485414611b805780639668398a14611b635780639f3d545e14611b46578063a436547614611b0e578063abe2287814611a73578063af55baa514610e6b578063b32c4d8d14610dfb578063b65e894114610d73578063bb3388e614610d4c578063bea81fa914610d1f578063c960229814610b9f578063cdffd73a14610b62578063d2c411d314610a8c578063d547741f14610a5e578063da1f12ab14610a42578063e1aaab9c14610941578063e30c397814610919578063e63ab1e9146108f2578063ea5a927814610877578063efe2840b146105df578063f2fde38b1461054c578063f70fbbae146104b7578063fb06f09d146102b85763fef1996614610297575f80fd5b346102b4575f3660031901126102b4576020600754604051908152f35b5f80fd5b346102b4576102c63661347d565b335f9081527f5af2f9d1d55bf4896a38fe227d1721dc1327ef7f24fc153b44c7ef8857a3caf9602052604090205460ff16156104935760ff600a54166104845781158015610479575b801561046a575b61045b57815f52600f60205260056103318260405f2061349c565b0154825f52600d60205260405f20541161044c57815f52601460205261035a8160405f2061349c565b545f52601260205260405f2060ff600482015416600581101561042a57600114908161043e575b81610407575b506103f857335f5260056020526103a560405f205460075490613614565b42106103e9576103d991335f5260056020524260405f2055805f52600c60205260ff600160405f200154166103db57613e99565b005b6103e481614551565b613e99565b63aa9a98df60e01b5f5260045ffd5b6346aa15df60e11b5f5260045ffd5b60ff91506002015416600482101561042a57600481101561042a57811483610387565b634e487b7160e01b5f52602160045260245ffd5b600181015484149150610381565b637bfbc40b60e11b5f5260045ffd5b6333b094a160e01b5f5260045ffd5b50610474826142ba565b610316565b50600b54821161030f565b633b3b4caf60e21b5f5260045ffd5b6301d4003760e61b5f525f805160206148d68339815191526004523360245260445ffd5b346102b45760603660031901126102b4576004356044356001600160401b0381116102b4576104ea903690600401613538565b919091335f52600360205260ff60405f2054161561053d5760ff600a54166104845761053261052a6103d994610538936105238661398d565b369161341a565b602435614408565b82613a2a565b613dab565b631a40715960e11b5f5260045ffd5b346102b45760203660031901126102b457610565613367565b5f546001600160a01b031690338290036105d0576001600160a01b03169081156105c157600180546001600160a01b031916831790557f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227005f80a3005b63e6c4247b60e01b5f5260045ffd5b6330cd747160e01b5f5260045ffd5b346102b45760803660031901126102b457335f9081527fa9fc55014f5d7cb0915e5ed13e09bb279229db48b5282f72b9cd9d6824cbc86b60205260409020546044359060243590600435906064359060ff16156108535760ff600a54166104845761064e600b94939454613660565b80600b55805f52600c60205281600660405f2083815560018101600160ff198254161790555f60028201558560038201558760048201558660058201550155600e546040519061069d826133c3565b81526002602082015f815260408301905f8252845f52600d60205260405f2093518455516001840155519101555f946004936054851015965b60ff8116868110156107de576106f790855f52600f60205260405f2061349c565b6106ff6145ed565b60018201555f8051602061485683398151915254604051639cd07acb60e01b815263ffffffff89820152906001600160a01b03168a6107cb57816044815f6020948d60248401525af19081156107c0575f9161078b575b50600282015560ff916001916107849061076e6145ed565b600382015561077b61466a565b8a820155614515565b01166106d6565b9290506020833d82116107b8575b816107a6602093836133f9565b810103126102b4579151610784610756565b3d9150610799565b6040513d5f823e3d90fd5b602189634e487b7160e01b5f525260245ffd5b5050827ff60b8c0a7e460dc899a6aa3d48b20845215fcd545c7e9f9119c5c46616199d91604088602097825191825288820152a4807fbe9a5d7244619653f8dc3e03068ce98633a02a2eb271b407384bc4eec62f80286060600e546040519081525f868201525f6040820152a2604051908152f35b6301d4003760e61b5f525f805160206148368339815191526004523360245260445ffd5b346102b45760603660031901126102b45760043561089361337d565b9060443560048110156102b457811580156108e7575b61045b576040926108d4925f526010602052835f209060018060a01b03165f52602052825f2061349c565b6001815491015482519182526020820152f35b50600b5482116108a9565b346102b4575f3660031901126102b45760206040515f805160206148768339815191528152f35b346102b4575f3660031901126102b4576001546040516001600160a01b039091168152602090f35b346102b45760603660031901126102b4576004356024356001600160401b0381116102b457366023820112156102b4578060040135906001600160401b0382116102b4573660248360051b830101116102b4576044356001600160401b0381116102b4576109b3903690600401613538565b335f52600360205260ff60405f2054161561053d5760ff600a54166104845783158015610a38575b610a2a576109e88561398d565b5f5b84811015610a2157600190610a1b610a15610a0636868861341a565b60248460051b89010135614408565b88613a2a565b016109ea565b6103d986613dab565b62b3b86760e81b5f5260045ffd5b50600d84116109db565b346102b4575f3660031901126102b45760206040516127118152f35b346102b45760403660031901126102b4576103d9600435610a7d61337d565b90610a87816137c7565b61438a565b346102b45760203660031901126102b457335f9081527fa9fc55014f5d7cb0915e5ed13e09bb279229db48b5282f72b9cd9d6824cbc86b60205260409020546004359060ff16156108535760ff600a54166104845780158015610b57575b8015610b3d575b61045b57805f52600c6020527fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe6020600260405f206001810160ff1981541690550154604051908152a2005b50805f52600c60205260ff600160405f2001541615610af1565b50600b548111610aea565b346102b45760203660031901126102b4576001600160a01b03610b83613367565b165f526009602052602060ff60405f2054166040519015158152f35b346102b45760803660031901126102b457335f9081527fa9fc55014f5d7cb0915e5ed13e09bb279229db48b5282f72b9cd9d6824cbc86b60205260409020546004359060643590604435906024359060ff16156108535760ff600a54166104845783158015610d14575b61045b57835f52600c60205260405f20610c22856142ba565b15610d05578115610cca578215159081610ce3575b50610cca5782151580610cd9575b610cca57610cc57fbe9a5d7244619653f8dc3e03068ce98633a02a2eb271b407384bc4eec62f802893604051610c7a816133c3565b8381526002602082018681526040830190848252895f52600d60205260405f209351845551600184015551910155604051938493846040919493926060820195825260208201520152565b0390a2005b63d06b96b160e01b5f5260045ffd5b5042831115610c45565b82841091508115610cf6575b5085610c37565b60029150015482111585610cef565b635ae7a89560e11b5f5260045ffd5b50600b548411610c09565b346102b45760203660031901126102b4576020610d3d6004356136a0565b610d4a604051809261352b565bf35b346102b4575f3660031901126102b45760206040515f805160206148d68339815191528152f35b346102b45760203660031901126102b4576004355f52601260205260e060405f2080549060018101549060ff600282015416610dce6003830154916005600485015494015494604051968752602087015260408601906134b2565b6060840152610de36080840160ff831661352b565b60081c6001600160a01b031660a083015260c0820152f35b346102b45760203660031901126102b4576004355f52600c60205260e060405f2080549060ff600182015416906002810154600382015460048301549160066005850154940154946040519687521515602087015260408601526060850152608084015260a083015260c0820152f35b346102b45760c03660031901126102b45760043560a4356001600160401b0381116102b457610e9e903690600401613538565b90335f52600360205260ff60405f2054161561053d5760ff600a541661048457610ec78361398d565b610ede610ed861052a36858561341a565b84613a2a565b610ef4610eec36848461341a565b604435614408565b91835f52600f602052610f0b600160405f2061349c565b5f80516020614856833981519152546040516307227b9160e21b8152600481018690526005602482015290602090829060449082905f906001600160a01b03165af19081156107c0575f91611a41575b5060018201610f6b8682546146b8565b905560028201805486918115611a31575b87159283611a1f575b602090606460018060a01b035f805160206148568339815191525416945f60405196879485936304559f7160e01b8552600485015260248401528160448401525af19182156107c0575f926119eb575b505560038301805491879083156119db575b6119c9575b602090606460018060a01b035f805160206148568339815191525416945f6040519687948593630d8c635960e21b8552600485015260248401528160448401525af19182156107c0575f92611995575b50556004820190815481821580611985575b611973575b602090606460018060a01b035f805160206148568339815191525416945f6040519687948593630afe14ad60e31b8552600485015260248401528160448401525af19182156107c0575f92611939575b50916110c1826002945f9994918115611656575b15611646576146e1565b90556110cc83614515565b6110d68354613660565b835586865260106020526040862060018060a01b033316875260205261110b61110360016040892061349c565b9182546146b8565b81556111526001820180548015611926575b6111269061473d565b81556111348354309061479a565b61113f30825461479a565b61114a33845461479a565b33905461479a565b019081549160ff831615611905575b50505061117a61117236838561341a565b606435614408565b848452600f60205261119060026040862061349c565b90602060018060a01b035f8051602061485683398151915254166044604051809881936307227b9160e21b8352866004840152600560248401525af19485156107c0575f956118d1575b50600182016111ea8282546146b8565b9055600282018054829181156118c1575b831592836118af575b602090606460018060a01b035f805160206148568339815191525416945f60405196879485936304559f7160e01b8552600485015260248401528160448401525af19182156107c0575f9261187b575b5055600383018054918390831561186b575b611859575b602090606460018060a01b035f805160206148568339815191525416945f6040519687948593630d8c635960e21b8552600485015260248401528160448401525af19182156107c0575f92611825575b50556004820194855481821580611815575b611803575b602090606460018060a01b035f805160206148568339815191525416945f6040519687948593630afe14ad60e31b8552600485015260248401528160448401525af19182156107c0575f926117c1575b50916113d196611347836113c9989796956002959181156116565715611646576146e1565b905561135283614515565b61135c8354613660565b8355875f52601060205260405f2060018060a01b0333165f526020526113886111038360405f2061349c565b81556113b06001820180548015611633575b6113a39061473d565b815561113430845461479a565b019081549160ff8316156117a0575b505050369161341a565b608435614408565b90805f52600f6020526113e8600360405f2061349c565b5f80516020614856833981519152546040516307227b9160e21b8152600481018590526005602482015290602090829060449082905f906001600160a01b03165af19081156107c0575f9161176e575b50600182016114488582546146b8565b90556002820180548591811561175e575b8615928361174c575b602090606460018060a01b035f805160206148568339815191525416945f60405196879485936304559f7160e01b8552600485015260248401528160448401525af19182156107c0575f92611718575b50556003830180549186908315611708575b6116f6575b602090606460018060a01b035f805160206148568339815191525416945f6040519687948593630d8c635960e21b8552600485015260248401528160448401525af19182156107c0575f926116c2575b505560048201908154818215806116b2575b6116a0575b602090606460018060a01b035f805160206148568339815191525416945f6040519687948593630afe14ad60e31b8552600485015260248401528160448401525af19182156107c0575f92611666575b509161159f826002946103d998949181156116565715611646576146e1565b90556115aa83614515565b6115b48354613660565b8355835f52601060205260405f2060018060a01b0333165f526020526115e1611103600360405f2061349c565b81556115fb6001820180548015611633576113a39061473d565b019081549160ff831615611612575b505050613dab565b600160059360ff1916179055016116298154613660565b905582808061160a565b506113a361163f6145ed565b905061139a565b905061165061466a565b906146e1565b905061166061466a565b906110b7565b959150916020863d602011611698575b81611683602093836133f9565b810103126102b457945190949161159f611580565b3d9150611676565b5060206116ab61466a565b9050611530565b92506116bc61466a565b9261152b565b9091506020813d6020116116ee575b816116de602093836133f9565b810103126102b457519086611519565b3d91506116d1565b5060206117016145ed565b90506114c9565b92506117126145ed565b926114c4565b9091506020813d602011611744575b81611734602093836133f9565b810103126102b4575190876114b2565b3d9150611727565b5060206117576145ed565b9050611462565b90506117686145ed565b90611459565b90506020813d602011611798575b81611789602093836133f9565b810103126102b4575184611438565b3d915061177c565b600160059360ff1916179055016117b78154613660565b90558580806113bf565b959493929091506020863d6020116117fb575b816117e1602093836133f9565b810103126102b457945193949293919291906113d1611322565b3d91506117d4565b50602061180e61466a565b90506112d2565b925061181f61466a565b926112cd565b9091506020813d602011611851575b81611841602093836133f9565b810103126102b4575190886112bb565b3d9150611834565b5060206118646145ed565b905061126b565b92506118756145ed565b92611266565b9091506020813d6020116118a7575b81611897602093836133f9565b810103126102b457519089611254565b3d915061188a565b5060206118ba6145ed565b9050611204565b90506118cb6145ed565b906111fb565b9094506020813d6020116118fd575b816118ed602093836133f9565b810103126102b4575193866111da565b3d91506118e0565b600160059360ff19161790550161191c8154613660565b9055848080611161565b506111266119326145ed565b905061111d565b969150916020873d60201161196b575b81611956602093836133f9565b810103126102b45795519095916110c16110a3565b3d9150611949565b50602061197e61466a565b9050611053565b925061198f61466a565b9261104e565b9091506020813d6020116119c1575b816119b1602093836133f9565b810103126102b45751908861103c565b3d91506119a4565b5060206119d46145ed565b9050610fec565b92506119e56145ed565b92610fe7565b9091506020813d602011611a17575b81611a07602093836133f9565b810103126102b457519089610fd5565b3d91506119fa565b506020611a2a6145ed565b9050610f85565b9050611a3b6145ed565b90610f7c565b90506020813d602011611a6b575b81611a5c602093836133f9565b810103126102b4575186610f5b565b3d9150611a4f565b346102b45760203660031901126102b457335f9081525f8051602061489683398151915260205260409020546004359060ff1615611aea578015610cca5760407fd732f80f760feb1201edd34de52bc804037bff82d079ad21b0d17d86aff9302891600e549080600e5582519182526020820152a1005b6301d4003760e61b5f525f805160206148b68339815191526004523360245260445ffd5b346102b45760203660031901126102b4576001600160a01b03611b2f613367565b165f526004602052602060405f2054604051908152f35b346102b4575f3660031901126102b4576020600654604051908152f35b346102b4575f3660031901126102b4576020600e54604051908152f35b346102b45760403660031901126102b457611b9961337d565b6004355f52600260205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b346102b4575f3660031901126102b4575f546040516001600160a01b039091168152602090f35b346102b45760203660031901126102b4576103d93360043561438a565b346102b45760203660031901126102b457611c26613367565b335f9081525f80516020614896833981519152602052604090205460ff1615611aea576001600160a01b03165f818152600360205260408120805460ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d99080a2005b346102b45760203660031901126102b45760043580158015611f40575b61045b575f9081526013602052604081208054825b818110611ef05750611cd083613621565b92611cde60405194856133f9565b808452611ced601f1991613621565b015f5b818110611eaf5750505f805b828110611d9e57846040518091602082016020835281518091526020604084019201905f5b818110611d2f575050500390f35b91935091602060e060019260c08751805183528481015185840152611d5c604082015160408501906134b2565b60608101516060840152611d786080820151608085019061352b565b858060a01b0360a08201511660a0840152015160c0820152019401910191849392611d21565b611da8818561367f565b90549060031b1c5f52601260205260ff600460405f2001541690600582101561042a576001809203611eaa57611dde818661367f565b90549060031b1c5f52601260205260405f20600560405191611dff836133de565b80548352848101546020840152611e2060ff60028301541660408501613565565b600381015460608401526004810154611e3f60ff821660808601613694565b858060a01b039060081c1660a0840152015460c0820152611e608488613638565b52611e6b8387613638565b50611ea4611e88611e7c838861367f565b90549060031b1c6136a0565b6080611e9d611e9687613660565b968a613638565b5101613694565b01611cfc565b611ea4565b602090604051611ebe816133de565b5f81525f838201525f60408201525f60608201525f60808201525f60a08201525f60c082015282828801015201611cf0565b611efa818461367f565b90549060031b1c5f52601260205260ff600460405f20015416600581101561042a57600114611f2c575b600101611cbf565b92611f38600191613660565b939050611f24565b50600b548111611caa565b346102b4575f3660031901126102b457335f9081527faa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b93602052604090205460ff1615611fd357600a5460ff81166104845760019060ff191617600a557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a1005b6301d4003760e61b5f525f805160206148768339815191526004523360245260445ffd5b346102b4575f3660031901126102b45760206040515f805160206148368339815191528152f35b346102b4575f3660031901126102b4576001546001600160a01b0381163303612156575f80546001600160a01b031980821633908117845593166001556001600160a01b0316919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09080a361209533613876565b61209e816142fc565b6040516120aa816133c3565b5f8051602061483683398151915281525f805160206148d683398151915260208201525f8051602061487683398151915260408201526001600160a01b038216915f5b600381106120f757005b806121046001928561366e565b515f52600260205260405f20855f5260205260ff60405f205416156121515761213783612131838761366e565b5161438a565b61214b33612145838761366e565b51613909565b016120ed565b61214b565b630614e5c760e21b5f5260045ffd5b346102b4575f3660031901126102b45760206040515f805160206148b68339815191528152f35b346102b4575f3660031901126102b4575f6001600b54905b8181111561226157506121cf6121b983613621565b926121c760405194856133f9565b808452613621565b602083019190601f19013683375f60015b8281111561222c578385604051918291602083019060208452518091526040830191905f5b818110612213575050500390f35b8251845285945060209384019390920191600101612205565b80612239612242926142ba565b61224757613660565b6121e0565b8061225b61225485613660565b9488613638565b52613660565b61226a816142ba565b61227d575b61227890613660565b6121a4565b9161228a61227891613660565b92905061226f565b346102b45760203660031901126102b4576001600160a01b036122b3613367565b165f526008602052602060405f2054604051908152f35b346102b45760203660031901126102b457335f9081527f5af2f9d1d55bf4896a38fe227d1721dc1327ef7f24fc153b44c7ef8857a3caf960205260409020546004359060ff16156104935760ff600a541661048457805f52601260205260405f2090600482019160ff835416600581101561042a576001036123ce57612357600582015460155490613614565b42106123bf57602092600460ff19825416179055335f52600583524260405f2055612390600182019160ff600284549201541690613e99565b905481604051937f9e8d03065ba095020ad4bde4072c255dfb17cab1ca5896b312d7b91836725a9b5f80a48152f35b636c804b5d60e01b5f5260045ffd5b63f41814a760e01b5f5260045ffd5b346102b45760603660031901126102b4576004356024359060443560048110156102b457811580156125b1575b80156125a6575b6125975781830392831161258357600183018093116125835761243383613621565b9261244160405194856133f9565b808452612450601f1991613621565b015f5b81811061256c5750505f5b835181101561251b578061247460019285613614565b5f5260116020526124888360405f2061349c565b60086040519161249783613393565b8054835260ff858201546124b082821660208701613565565b831c16151560408401526002810154606084015260038101546080840152600481015460a0840152600581015460c0840152600681015460e0840152600781015461010084015201546101208201526125098287613638565b526125148186613638565b500161245e565b836040518091602082016020835281518091526020604084019201905f5b818110612547575050500390f35b9193509160206101408261255e60019488516134bf565b019401910191849392612539565b6020906125776135ca565b82828801015201612453565b634e487b7160e01b5f52601160045260245ffd5b63561ce9bb60e01b5f5260045ffd5b50600b548311612411565b5082821161240a565b346102b45760203660031901126102b457335f9081525f8051602061489683398151915260205260409020546004359060ff1615611aea5780156126315760407f114180376e5c9387ede213db915e0ca2b963b4decf0ca5a76aaca397d4bcafef91601554908060155582519182526020820152a1005b631ffb86f160e21b5f5260045ffd5b346102b4575f3660031901126102b457602060ff600a54166040519015158152f35b346102b45760403660031901126102b45761267b613367565b335f9081525f805160206148968339815191526020526040902054602435919060ff1615611aea576001600160a01b03169081156105c15760207fd43cf2205fd2970da9fe635fcc66e3c487ba73ea6672012675209f909d35731091835f52600882528060405f2055604051908152a2005b346102b45760203660031901126102b4576001600160a01b0361270e613367565b165f526005602052602060405f2054604051908152f35b346102b45760203660031901126102b457335f9081525f8051602061489683398151915260205260409020546004359060ff1615611aea57801561279c5760407fcda5d03cebd04578e8e9b152dd1196dd119e3680f84f40f5cf631065e456486f91600654908060065582519182526020820152a1005b637475d84d60e11b5f5260045ffd5b346102b45760203660031901126102b457600435805f52601260205260405f2060048101805460ff8116600581101561042a576001036123ce573360089190911c6001600160a01b0316141580612858575b61284957600360ff1982541617905560ff600260018301549201541691600483101561042a577f4717c1e3b3ab7d8973e9fadbb2cacf4ac2f946e3446896764bfd26ab622876135f80a4005b6371ced2cf60e11b5f5260045ffd5b50335f9081525f80516020614896833981519152602052604090205460ff16156127fd565b346102b45760203660031901126102b457612896613367565b335f9081525f80516020614896833981519152602052604090205460ff1615611aea576001600160a01b03165f818152600360205260408120805460ff191660011790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a9080a2005b346102b45760403660031901126102b4576004356024359063ffffffff82168092036102b457335f52600360205260ff60405f2054161561053d5760ff600a54166104845761294e8161398d565b5f8051602061485683398151915254604051639cd07acb60e01b815260048101939093526001600160a01b0316826044815f602094600460248401525af19182156107c0575f926129a9575b506103d9916105389082613a2a565b91506020823d6020116129d7575b816129c4602093836133f9565b810103126102b45790519061053861299a565b3d91506129b7565b346102b4575f3660031901126102b457335f9081527faa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b93602052604090205460ff1615611fd35760ff19600a5416600a557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b346102b457612a693661347d565b90612a726135ca565b5080158015612b1d575b61045b5761014091612a98915f52601160205260405f2061349c565b600860405191612aa783613393565b8054835260ff6001820154612ac182821660208701613565565b831c16151560408401526002810154606084015260038101546080840152600481015460a0840152600581015460c0840152600681015460e084015260078101546101008401520154610120820152610d4a60405180926134bf565b50600b548111612a7c565b346102b45760403660031901126102b457600435612b4461337d565b612b4d826137c7565b6001600160a01b038116156105c1576103d991613909565b346102b4576020612b88612b783661347d565b905f526014835260405f2061349c565b54604051908152f35b346102b4575f3660031901126102b4576020604051600d8152f35b346102b45760203660031901126102b4576020612bcf612bca613367565b613589565b604051908152f35b346102b45760203660031901126102b4576004355f52600d60205260405f208054612c2260026001840154930154604051938493846040919493926060820195825260208201520152565b0390f35b346102b45760603660031901126102b4576004356024356001600160401b0381116102b457612c5990369060040161345f565b906044356001600160401b0381116102b457612c7990369060040161345f565b90805f52601260205260405f206004810160ff815416600581101561042a5760028114613040575f19016123ce576001820180545f52600f60205260405f2094612ccc600285019660ff8854169061349c565b936003612ce0612cdb876136f1565b613790565b9101540361303157845f525f8051602061481683398151915260205260405f20541561302257845f525f8051602061481683398151915260205260405f2090604051808360208295549384815201905f5260205f20925f5b818110613009575050612d4d925003836133f9565b8751918260200192836020116125835760400180931161258357602092612e0592612df35f8694612da0868f819060405198818a92519d8e91019d8e8585015e82019083820152030180885201866133f9565b612e1760018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b875260606004880152606487019061375d565b858103600319016024870152906145c9565b838103600319016044850152906145c9565b03925af19081156107c0575f91612fce575b5015612fbf57847f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a26080878051810103126102b45751916040870151936080606089015198015191600260ff19825416179055549180549060ff8854169184155f14612fb7575f5b60405191612ea183613393565b8083526020830191612eb38684613565565b6040840195600187528d8b606087018b815260808801908d825260a0890192835260c08901938452612f0760e08a01958d87526101008b019788526101208b0198428a525f52601160205260405f2061349c565b9851895560018901975197600489101561042a5760ff9b612f2a60089a83613571565b51151561ff008254918b1b169061ff001916179055516002890155516003880155516004870155516005860155516006850155516007840155519101555496541696600488101561042a577fffaabce75e2e8b13678f9486ae869f641e3742bcf8397a40450e5eea81128a679460a0946040519485526020850152604084015260608301526080820152a4005b848604612e94565b63cf6c44e960e01b5f5260045ffd5b90506020813d602011613001575b81612fe9602093836133f9565b810103126102b4575180151581036102b45788612e29565b3d9150612fdc565b8454835260019485019487945060209093019201612d38565b63d66ca67560e01b5f5260045ffd5b6313b304fb60e21b5f5260045ffd5b63dbde098160e01b5f5260045ffd5b346102b45760403660031901126102b457613068613367565b602435908115158092036102b457335f9081525f80516020614896833981519152602052604090205460ff1615611aea576001600160a01b03169081156105c15760207f9fa807d1185f936f404d713ec8856206ffd6d7e57c97c055ce91d0410010d2c291835f526009825260405f2060ff1981541660ff8316179055604051908152a2005b346102b4575f3660031901126102b4576020600b54604051908152f35b346102b45760203660031901126102b4576001600160a01b0361312c613367565b165f526003602052602060ff60405f2054166040519015158152f35b346102b45760203660031901126102b457335f9081527f5af2f9d1d55bf4896a38fe227d1721dc1327ef7f24fc153b44c7ef8857a3caf960205260409020546004359060ff16156104935760ff600a5416610484575f811580156132c8575b80156132b9575b61045b57815f52600f60205260056131c95f6040812061349c565b0154825f52600d60205260405f20541161044c57815f5260146020526131f25f6040812061349c565b545f52601260205260405f2060ff600482015416600581101561042a5760011490816132ab575b8161328f575b5061328057338152600560205261323d604082205460075490613614565b4210613271576103d9913382526005602052426040832055808252600c60205260ff6001604084200154166103db57613e99565b63aa9a98df60e01b8152600490fd5b6346aa15df60e11b8152600490fd5b600201545f925060ff169050600481101561042a57158361321f565b600181015484149150613219565b506132c3826142ba565b6131ae565b50600b5482116131a7565b346102b4575f3660031901126102b4576020601554604051908152f35b346102b45760203660031901126102b457335f9081525f8051602061489683398151915260205260409020546004359060ff1615611aea57801561279c5760407fb04f6f2ac50c61c24c465baaa28c6253c88d80cb3e32d90939e9464351e3fb1991600754908060075582519182526020820152a1005b600435906001600160a01b03821682036102b457565b602435906001600160a01b03821682036102b457565b61014081019081106001600160401b038211176133af57604052565b634e487b7160e01b5f52604160045260245ffd5b606081019081106001600160401b038211176133af57604052565b60e081019081106001600160401b038211176133af57604052565b90601f801991011681019081106001600160401b038211176133af57604052565b9291926001600160401b0382116133af5760405191613443601f8201601f1916602001846133f9565b8294818452818301116102b4578281602093845f960137010152565b9080601f830112156102b45781602061347a9335910161341a565b90565b60409060031901126102b4576004359060243560048110156102b45790565b90600481101561042a575f5260205260405f2090565b90600482101561042a5752565b6101208091805184526134da602082015160208601906134b2565b604081015115156040850152606081015160608501526080810151608085015260a081015160a085015260c081015160c085015260e081015160e08501526101008101516101008501520151910152565b90600582101561042a5752565b9181601f840112156102b4578235916001600160401b0383116102b457602083818601950101116102b457565b600482101561042a5752565b90600481101561042a5760ff80198354169116179055565b6001600160a01b03165f8181526009602052604090205460ff166135c5575f9081526008602052604090205480156135be5790565b5060065490565b505f90565b604051906135d782613393565b5f610120838281528260208201528260408201528260608201528260808201528260a08201528260c08201528260e0820152826101008201520152565b9190820180921161258357565b6001600160401b0381116133af5760051b60200190565b805182101561364c5760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b5f1981146125835760010190565b90600381101561364c5760051b0190565b805482101561364c575f5260205f2001905f90565b600582101561042a5752565b5f52601260205260405f2060ff60048201541690600582101561042a576001821490816136d6575b506136d05790565b50600490565b6136e891506005015460155490613614565b4210155f6136c8565b9060405161370060a0826133f9565b6004815260208101926080368537819360018201549083511561364c5752600281015482516001101561364c57604083015260038101549082516002101561364c57600491606084015201549080516003101561364c5760800152565b90602080835192838152019201905f5b81811061377a5750505090565b825184526020938401939092019160010161376d565b6040516137c1816137ad602082019460408652606083019061375d565b30604083015203601f1981018352826133f9565b51902090565b5f805160206148b683398151915281036137ef57505f546001600160a01b031633036105d057565b5f80516020614836833981519152811490811561385f575b8115613848575b501561383957335f9081525f80516020614896833981519152602052604090205460ff1615611aea57565b636caa20b560e11b5f5260045ffd5b5f805160206148768339815191529150145f61380e565b5f805160206148d683398151915281149150613807565b6001600160a01b0381165f9081525f80516020614896833981519152602052604090205460ff16613906576001600160a01b03165f8181525f8051602061489683398151915260205260408120805460ff191660011790553391905f805160206148b6833981519152907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d9080a4565b50565b805f52600260205260405f2060018060a01b0383165f5260205260ff60405f205416613989575f8181526002602090815260408083206001600160a01b0395909516808452949091528120805460ff19166001179055339291907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d9080a4565b5050565b335f5260046020526139ac60405f20546139a633613589565b90613614565b42106103e957335f5260046020524260405f205580158015613a1f575b61045b57805f52600c60205260ff600160405f2001541615610d05575f52600d602052600260405f2001548015159081613a14575b50613a0557565b63a76f325b60e01b5f5260045ffd5b90504210155f6139fe565b50600b5481116139c9565b905f90828252600f602052613a42826040812061349c565b92602060018060a01b035f8051602061485683398151915254166044604051809681936307227b9160e21b8352876004840152600560248401525af19283156107c0575f93613d77575b5060018401613a9c8382546146b8565b905560028401805483918115613d67575b84159283613d55575b602090606460018060a01b035f805160206148568339815191525416945f60405196879485936304559f7160e01b8552600485015260248401528160448401525af19182156107c0575f92613d21575b50556003850180549184908315613d11575b613cff575b602090606460018060a01b035f805160206148568339815191525416945f6040519687948593630d8c635960e21b8552600485015260248401528160448401525af19182156107c0575f92613ccb575b50556004840180549380811580613cbb575b613ca9575b602090606460018060a01b035f805160206148568339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af19081156107c0575f91613c76575b5080600295613bee929181156116565715611646576146e1565b9055613bf984614515565b613c038454613660565b84555f52601060205260405f2060018060a01b0333165f52602052613c2e6111035f6040812061349c565b8155613c486001820180548015611926576111269061473d565b019081549160ff831615613c5b57505050565b600160059360ff191617905501613c728154613660565b9055565b90506020813d602011613ca1575b81613c91602093836133f9565b810103126102b457516002613bd4565b3d9150613c84565b506020613cb461466a565b9050613b84565b9150613cc561466a565b91613b7f565b9091506020813d602011613cf7575b81613ce7602093836133f9565b810103126102b45751905f613b6d565b3d9150613cda565b506020613d0a6145ed565b9050613b1d565b9250613d1b6145ed565b92613b18565b9091506020813d602011613d4d575b81613d3d602093836133f9565b810103126102b45751905f613b06565b3d9150613d30565b506020613d606145ed565b9050613ab6565b9050613d716145ed565b90613aad565b9092506020813d602011613da3575b81613d93602093836133f9565b810103126102b45751915f613a8c565b3d9150613d86565b805f52600c602052600260405f2001613dc48154613660565b809155816040518281527f6f18c67c9107f36e4ce1cb5e8d75c8a4a40acd0c76e4c8c381b8a6ca6f7c827c60203392a3815f52600d602052600160405f2001548015159182613e8e575b5050613e175750565b805f52600c6020527fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe6020600260405f206001810160ff1981541690550154837f356eeef91892e141a39188114f72e33686c66ce1fba343d616a2ef616e6047b4604080515f81528486820152a2604051908152a2565b101590505f80613e0e565b91905f92805f52600f602052613eba613eb58360405f2061349c565b6136f1565b613ec381613790565b947f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00549160018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156102b4575f6040518092637d6e912360e11b825260206004830152818381613f3f602482018961375d565b03925af180156107c0576142a5575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b156142a157826040518092633263b83b60e01b825286600483015260606024830152818381613fae606482018961375d565b63124bd04b60e01b604483015203925af180156142965790839161427d575b508390525f80516020614816833981519152602052604082205461426e578282525f80516020614816833981519152602052604082208151916001600160401b03831161425a57600160401b831161425a578154838355808410614234575b5060200190835260208320835b838110614220575050505061406e7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0054613660565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf005581956040519061409f826133de565b8382526020820190858252604083016140b88882613565565b6060840191825260808401916001835260a085019133835260c08601944286528888526012602052604088209651875551600187015551600481101561420c576141059060028701613571565b51600385015560048401915160058110156141f857825491516001600160a81b031990921660ff9091161760089190911b610100600160a81b03161790555160059190910155828152601360205260408120805490600160401b8210156141e457906141769160018201815561367f565b81549060031b9084821b915f19901b19161790558281526014602052816141a0856040842061349c565b5560048410156141d057807f08b76acf3289dd1d9d88d90971104d6f2df2f04899bf9a03ac2408c32186851791a4565b634e487b7160e01b81526021600452602490fd5b634e487b7160e01b83526041600452602483fd5b634e487b7160e01b86526021600452602486fd5b634e487b7160e01b87526021600452602487fd5b600190602084519401938184015501614039565b828552836020862091820191015b81811061424f575061402c565b858155600101614242565b634e487b7160e01b84526041600452602484fd5b633f06d22b60e01b8252600482fd5b81614287916133f9565b61429257815f613fcd565b5080fd5b6040513d85823e3d90fd5b8280fd5b6142b29192505f906133f9565b5f905f613f4e565b805f52600d602052600260405f200154905f52600c60205260ff600160405f2001541690816142e7575090565b8015915081156142f5575090565b9050421090565b6001600160a01b0381165f9081525f80516020614896833981519152602052604090205460ff1615613906576001600160a01b03165f8181525f8051602061489683398151915260205260408120805460ff191690553391905f805160206148b6833981519152907ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9080a4565b805f52600260205260405f2060018060a01b0383165f5260205260ff60405f20541615613989575f8181526002602090815260408083206001600160a01b0395909516808452949091528120805460ff19169055339291907ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9080a4565b6144579160209160018060a01b035f805160206148568339815191525416905f60405180968195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906145c9565b6004606483015203925af19081156107c0575f916144e3575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b156102b457604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156107c0576144d9575090565b5f61347a916133f9565b90506020813d60201161450d575b816144fe602093836133f9565b810103126102b457515f614470565b3d91506144f1565b61454f906145286001820154309061479a565b61453630600283015461479a565b61454430600383015461479a565b60043091015461479a565b565b805f52600c6020527fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe6020600260405f206001810160ff1981541690550154837f356eeef91892e141a39188114f72e33686c66ce1fba343d616a2ef616e6047b460408051600181528486820152a2604051908152a2565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b5f8051602061485683398151915254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600460248401525af19081156107c0575f9161463b575090565b90506020813d602011614662575b81614656602093836133f9565b810103126102b4575190565b3d9150614649565b5f8051602061485683398151915254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600560248401525af19081156107c0575f9161463b575090565b9061347a9180156146d3575b816146e15790506116506145ed565b506146dc6145ed565b6146c4565b5f805160206148568339815191525460405163022f65e760e31b8152600481019290925260248201929092525f604482018190529091602091839160649183916001600160a01b03165af19081156107c0575f9161463b575090565b5f805160206148568339815191525460405163022f65e760e31b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156107c0575f9161463b575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156102b457604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156107c05761480b5750565b5f61454f916133f956fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0152e466598c5e4408cbbaf840ea4dbd39f3e0aa1ba17a69b571858fba5698291f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970165d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862ae5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc5a49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775a56bab918981a5a9ca288e159635563219e03273d91a85c75b4bf6cc3f677891a164736f6c634300081a000a2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0da9fc55014f5d7cb0915e5ed13e09bb279229db48b5282f72b9cd9d6824cbc86baa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b93e5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc55af2f9d1d55bf4896a38fe227d1721dc1327ef7f24fc153b44c7ef8857a3caf9";
+
+type FHEBenchmarkToolFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: FHEBenchmarkToolFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class FHEBenchmarkToolFHE__factory extends ContractFactory {
+  constructor(...args: FHEBenchmarkToolFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      FHEBenchmarkToolFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): FHEBenchmarkToolFHE__factory {
+    return super.connect(runner) as FHEBenchmarkToolFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): FHEBenchmarkToolFHEInterface {
+    return new Interface(_abi) as FHEBenchmarkToolFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): FHEBenchmarkToolFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as FHEBenchmarkToolFHE;
+  }
+}
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as fheBenchmarkToolSol from "./FHE_Benchmark_Tool.sol";
+export { FHEOperationBenchmark__factory } from "./FHEOperationBenchmark__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
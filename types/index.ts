@@ -22,5 +22,9 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { FHEBenchmarkToolFHE } from "./contracts/FHE_Benchmark_Tool.sol/FHEBenchmarkToolFHE";
+export { FHEBenchmarkToolFHE__factory } from "./factories/contracts/FHE_Benchmark_Tool.sol/FHEBenchmarkToolFHE__factory";
+export type { FHEOperationBenchmark } from "./contracts/FHEOperationBenchmark";
+export { FHEOperationBenchmark__factory } from "./factories/contracts/FHEOperationBenchmark__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";